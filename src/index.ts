@@ -4,7 +4,9 @@ export { useDebounce } from './useDebounce';
 export { useDidUpdateEffect } from './useDidUpdateEffect';
 export { useIsComponentMounted } from './useIsComponentMounted';
 export { useKeyboardListNavigation } from './useKeyboardListNavigation';
+export { useKeyboardTreeNavigation } from './useKeyboardTreeNavigation';
 export { useOnOutsideClick } from './useOnOutsideClick';
+export { useDismissableLayer } from './useDismissableLayer';
 export { useDeepCompareEffect } from './useDeepCompareEffect';
 export { usePrevious } from './usePrevious';
 export { useIsTouchDevice } from './useIsTouchDevice';
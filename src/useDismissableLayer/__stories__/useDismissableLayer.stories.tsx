@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { StoryFn, Meta } from '@storybook/react';
+import { useDismissableLayer } from '../useDismissableLayer';
+import { UseDismissableLayerDismissReason } from '../useDismissableLayer.types';
+
+interface LayerProps {
+  /**
+   * The title of the layer.
+   */
+  title: string;
+  /**
+   * Whether the pointer events outside the layer are disabled.
+   */
+  isModal?: boolean;
+  /**
+   * Callback triggered when the layer is dismissed.
+   */
+  onDismiss: (reason: UseDismissableLayerDismissReason) => void;
+  /**
+   * The content of the layer.
+   */
+  children?: React.ReactNode;
+}
+
+export default {
+  title: 'Hooks/useDismissableLayer',
+  component: useDismissableLayer as unknown,
+} as Meta;
+
+const Layer: React.FC<LayerProps> = ({
+  title,
+  isModal,
+  onDismiss,
+  children,
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const { getLayerProps } = useDismissableLayer({
+    ref,
+    onDismiss,
+    disableOutsidePointerEvents: isModal,
+  });
+
+  return (
+    <div
+      ref={ref}
+      {...getLayerProps()}
+      style={{
+        padding: '20px',
+        margin: '20px',
+        border: '1px solid #ccc',
+        background: isModal ? '#f0f0f0' : 'white',
+      }}
+    >
+      <b>{title}</b>
+      {children}
+    </div>
+  );
+};
+
+const Template: StoryFn = () => {
+  const [isDialogOpened, setIsDialogOpened] = useState(false);
+  const [isPopoverOpened, setIsPopoverOpened] = useState(false);
+  const [lastReason, setLastReason] = useState('');
+
+  return (
+    <div>
+      <h1>useDismissableLayer Demo</h1>
+
+      <p>
+        Open the dialog and the popover inside it, then press Escape or click
+        outside: only the topmost layer is closed.
+      </p>
+
+      <p>Last dismiss reason: {lastReason || 'none'}</p>
+
+      <button onClick={() => setIsDialogOpened(true)}>Open dialog</button>
+
+      {isDialogOpened && (
+        <Layer
+          title="Dialog"
+          isModal
+          onDismiss={(reason) => {
+            setLastReason(`Dialog: ${reason}`);
+            setIsDialogOpened(false);
+          }}
+        >
+          <div>
+            <button onClick={() => setIsPopoverOpened(true)}>
+              Open popover
+            </button>
+          </div>
+          {isPopoverOpened && (
+            <Layer
+              title="Popover"
+              onDismiss={(reason) => {
+                setLastReason(`Popover: ${reason}`);
+                setIsPopoverOpened(false);
+              }}
+            />
+          )}
+        </Layer>
+      )}
+    </div>
+  );
+};
+
+export const Demo = {
+  render: () => <Template />,
+};
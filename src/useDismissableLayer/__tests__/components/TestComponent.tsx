@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+import { useDismissableLayer } from '../../useDismissableLayer';
+import { UseDismissableLayerDismissReason } from '../../useDismissableLayer.types';
+
+type TestComponentProps = {
+  /**
+   * Name of the layer used in the test ids
+   */
+  name: string;
+  /**
+   * Callback when the layer is dismissed
+   */
+  onDismiss: (reason: UseDismissableLayerDismissReason, event: Event) => void;
+  /**
+   * Whether the layer is opened
+   */
+  isOpened?: boolean;
+  /**
+   * Whether the pointer events outside the layer are disabled
+   */
+  disableOutsidePointerEvents?: boolean;
+  /**
+   * Nested layers
+   */
+  children?: React.ReactNode;
+};
+
+const TestComponent = (props: TestComponentProps) => {
+  const { name, onDismiss, isOpened, disableOutsidePointerEvents, children } =
+    props;
+  const ref = useRef<HTMLDivElement>(null);
+
+  const { getLayerProps } = useDismissableLayer({
+    ref,
+    onDismiss,
+    isOpened,
+    disableOutsidePointerEvents,
+  });
+
+  return (
+    <div ref={ref} data-testid={`layer-${name}`} {...getLayerProps()}>
+      <button data-testid={`button-${name}`}>{name}</button>
+      {children}
+    </div>
+  );
+};
+
+export default TestComponent;
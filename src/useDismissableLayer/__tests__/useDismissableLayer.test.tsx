@@ -0,0 +1,315 @@
+import React from 'react';
+import { render, fireEvent, screen } from '@testing-library/react';
+import TestComponent from './components/TestComponent';
+
+describe('useDismissableLayer', () => {
+  const onDismissMenu = jest.fn();
+  const onDismissSubmenu = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderLayers = (isSubmenuOpened = true) => {
+    const renderResult = render(
+      <div>
+        <TestComponent name="menu" onDismiss={onDismissMenu} />
+        <button data-testid="outside">Outside</button>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    renderResult.rerender(
+      <div>
+        <TestComponent name="menu" onDismiss={onDismissMenu} />
+        <TestComponent
+          name="submenu"
+          onDismiss={onDismissSubmenu}
+          isOpened={isSubmenuOpened}
+        />
+        <button data-testid="outside">Outside</button>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    return renderResult;
+  };
+
+  it('should dismiss only the topmost layer on Escape', () => {
+    renderLayers();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(onDismissSubmenu).toHaveBeenCalledWith(
+      'escapeKey',
+      expect.any(KeyboardEvent)
+    );
+    expect(onDismissMenu).not.toHaveBeenCalled();
+  });
+
+  it('should ignore Escape if its default action is prevented', () => {
+    renderLayers();
+
+    const event = new KeyboardEvent('keydown', {
+      key: 'Escape',
+      cancelable: true,
+    });
+
+    event.preventDefault();
+    document.dispatchEvent(event);
+
+    expect(onDismissSubmenu).not.toHaveBeenCalled();
+  });
+
+  it('should dismiss only the topmost layer on pointerdown outside', () => {
+    renderLayers();
+
+    fireEvent.pointerDown(screen.getByTestId('button-submenu'));
+    expect(onDismissSubmenu).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(screen.getByTestId('button-menu'));
+    expect(onDismissSubmenu).toHaveBeenCalledWith(
+      'pointerOutside',
+      expect.any(Event)
+    );
+    expect(onDismissMenu).not.toHaveBeenCalled();
+  });
+
+  it('should dismiss the topmost layer when the focus moves outside', () => {
+    renderLayers();
+
+    screen.getByTestId('outside').focus();
+
+    expect(onDismissSubmenu).toHaveBeenCalledWith(
+      'focusOutside',
+      expect.any(FocusEvent)
+    );
+    expect(onDismissMenu).not.toHaveBeenCalled();
+  });
+
+  it('should skip the closed layers', () => {
+    renderLayers(false);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    fireEvent.pointerDown(screen.getByTestId('outside'));
+
+    expect(onDismissSubmenu).not.toHaveBeenCalled();
+    expect(onDismissMenu).toHaveBeenCalledTimes(2);
+    expect(onDismissMenu).toHaveBeenLastCalledWith(
+      'pointerOutside',
+      expect.any(Event)
+    );
+  });
+
+  it('should track the outside interactions in the document of a layer opened later', () => {
+    const onDismiss = jest.fn();
+    const iframe = document.createElement('iframe');
+
+    document.body.appendChild(iframe);
+
+    const ownerDocument = iframe.contentDocument!;
+    const container = ownerDocument.createElement('div');
+    const outsideElement = ownerDocument.createElement('div');
+
+    ownerDocument.body.append(container, outsideElement);
+
+    const { rerender, unmount } = render(
+      <TestComponent name="popover" onDismiss={onDismiss} isOpened={false} />,
+      { container }
+    );
+
+    jest.runAllTimers();
+
+    rerender(<TestComponent name="popover" onDismiss={onDismiss} isOpened />);
+
+    jest.runAllTimers();
+
+    fireEvent.pointerDown(outsideElement);
+
+    expect(onDismiss).toHaveBeenCalledWith('pointerOutside', expect.anything());
+
+    unmount();
+    iframe.remove();
+  });
+
+  it('should disable the pointer events outside the modal layer', () => {
+    const { unmount } = render(
+      <TestComponent
+        name="dialog"
+        onDismiss={jest.fn()}
+        disableOutsidePointerEvents
+      />
+    );
+
+    expect(document.body.style.pointerEvents).toBe('none');
+    expect(screen.getByTestId('layer-dialog').style.pointerEvents).toBe('auto');
+
+    unmount();
+
+    expect(document.body.style.pointerEvents).toBe('');
+  });
+
+  it('should restore the inline pointer events of the layer elements', () => {
+    const renderLayer = (isOpened: boolean) => (
+      <TestComponent
+        name="dialog"
+        onDismiss={jest.fn()}
+        isOpened={isOpened}
+        disableOutsidePointerEvents
+      />
+    );
+
+    const { rerender } = render(renderLayer(false));
+    const layerElement = screen.getByTestId('layer-dialog');
+
+    layerElement.style.pointerEvents = 'none';
+
+    rerender(renderLayer(true));
+    expect(layerElement.style.pointerEvents).toBe('auto');
+
+    rerender(renderLayer(false));
+    expect(layerElement.style.pointerEvents).toBe('none');
+    expect(document.body.style.pointerEvents).toBe('');
+  });
+
+  it('should not reset the inline pointer events of the layers below the modal one', () => {
+    const renderMenuAndDialog = (
+      isMenuOpened: boolean,
+      isDialogOpened: boolean
+    ) => (
+      <div>
+        <TestComponent
+          name="menu"
+          onDismiss={onDismissMenu}
+          isOpened={isMenuOpened}
+        />
+        <TestComponent
+          name="dialog"
+          onDismiss={jest.fn()}
+          isOpened={isDialogOpened}
+          disableOutsidePointerEvents
+        />
+      </div>
+    );
+
+    const { rerender } = render(renderMenuAndDialog(false, false));
+    const menuElement = screen.getByTestId('layer-menu');
+
+    menuElement.style.pointerEvents = 'none';
+
+    rerender(renderMenuAndDialog(true, false));
+    rerender(renderMenuAndDialog(true, true));
+    expect(menuElement.style.pointerEvents).toBe('none');
+
+    rerender(renderMenuAndDialog(true, false));
+    expect(menuElement.style.pointerEvents).toBe('none');
+  });
+
+  describe('nested layers', () => {
+    const renderNestedLayers = (isMenuModal = false) =>
+      render(
+        <div>
+          <TestComponent
+            name="menu"
+            onDismiss={onDismissMenu}
+            disableOutsidePointerEvents={isMenuModal}
+          >
+            <TestComponent name="submenu" onDismiss={onDismissSubmenu} />
+          </TestComponent>
+          <button data-testid="outside">Outside</button>
+        </div>
+      );
+
+    it('should dismiss the nested layer opened together with its parent on Escape', () => {
+      renderNestedLayers();
+
+      jest.runAllTimers();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+
+      expect(onDismissSubmenu).toHaveBeenCalledTimes(1);
+      expect(onDismissMenu).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss the nested layer opened together with its parent on pointerdown outside', () => {
+      renderNestedLayers();
+
+      jest.runAllTimers();
+
+      fireEvent.pointerDown(screen.getByTestId('button-menu'));
+      expect(onDismissSubmenu).toHaveBeenCalledWith(
+        'pointerOutside',
+        expect.any(Event)
+      );
+
+      fireEvent.pointerDown(screen.getByTestId('outside'));
+      expect(onDismissSubmenu).toHaveBeenCalledTimes(2);
+      expect(onDismissMenu).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss only one layer when the topmost one is closed by the event', () => {
+      const NestedLayers = () => {
+        const [isSubmenuOpened, setIsSubmenuOpened] = React.useState(true);
+
+        return (
+          <div>
+            <TestComponent name="menu" onDismiss={onDismissMenu}>
+              <TestComponent
+                name="submenu"
+                isOpened={isSubmenuOpened}
+                onDismiss={() => setIsSubmenuOpened(false)}
+              />
+            </TestComponent>
+            <button data-testid="outside">Outside</button>
+          </div>
+        );
+      };
+
+      render(<NestedLayers />);
+
+      jest.runAllTimers();
+
+      fireEvent.pointerDown(screen.getByTestId('outside'));
+      expect(onDismissMenu).not.toHaveBeenCalled();
+
+      fireEvent.pointerDown(screen.getByTestId('outside'));
+      expect(onDismissMenu).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the stack order when the parent becomes modal', () => {
+      const { rerender } = renderNestedLayers();
+
+      jest.runAllTimers();
+
+      rerender(
+        <div>
+          <TestComponent
+            name="menu"
+            onDismiss={onDismissMenu}
+            disableOutsidePointerEvents
+          >
+            <TestComponent name="submenu" onDismiss={onDismissSubmenu} />
+          </TestComponent>
+          <button data-testid="outside">Outside</button>
+        </div>
+      );
+
+      jest.runAllTimers();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+
+      expect(onDismissSubmenu).toHaveBeenCalledTimes(1);
+      expect(onDismissMenu).not.toHaveBeenCalled();
+      expect(document.body.style.pointerEvents).toBe('none');
+      expect(screen.getByTestId('layer-submenu').style.pointerEvents).toBe(
+        'auto'
+      );
+    });
+  });
+});
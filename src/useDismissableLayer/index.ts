@@ -0,0 +1 @@
+export { useDismissableLayer } from './useDismissableLayer';
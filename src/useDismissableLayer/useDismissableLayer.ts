@@ -0,0 +1,300 @@
+import { MutableRefObject, useCallback, useEffect, useRef } from 'react';
+import { reject } from '@utils';
+
+import {
+  UseDismissableLayerOptions,
+  UseDismissableLayerResult,
+} from './useDismissableLayer.types';
+import {
+  useOnOutsideClick,
+  UseOnOutsideClickEventType,
+} from '../useOnOutsideClick/useOnOutsideClick';
+import { useConst } from '../useConst';
+
+const ESCAPE_KEY = 'Escape';
+
+const OUTSIDE_EVENTS: UseOnOutsideClickEventType[] = [
+  'pointerdown',
+  'focusin',
+  'iframefocus',
+];
+
+const NO_REFS: MutableRefObject<HTMLElement | null>[] = [];
+
+/**
+ * An opened layer in the stack.
+ */
+interface Layer {
+  /**
+   * Ref of the layer element.
+   */
+  ref: MutableRefObject<HTMLElement | null>;
+  /**
+   * The latest `onDismiss` callback of the layer.
+   */
+  onDismissRef: MutableRefObject<UseDismissableLayerOptions['onDismiss']>;
+  /**
+   * Whether the elements below the layer do not receive pointer events.
+   */
+  disableOutsidePointerEvents: boolean;
+  /**
+   * The order in which the layer was opened, used to find its place in the stack.
+   */
+  order: number;
+  /**
+   * The inline pointer events style of the layer element to restore.
+   */
+  pointerEvents: string;
+}
+
+/**
+ * The body whose pointer events are disabled by a modal layer.
+ */
+interface DisabledBody {
+  /**
+   * The body element.
+   */
+  body: HTMLElement;
+  /**
+   * The inline pointer events style of the body to restore.
+   */
+  pointerEvents: string;
+}
+
+/**
+ * The opened layers in the order they were opened, the topmost one is the last.
+ */
+let layers: Layer[] = [];
+
+/**
+ * The counter of the opened layers. The order is taken while rendering,
+ * because the effects of the nested layers that are opened together
+ * run before the effects of their parents.
+ */
+let openCounter = 0;
+
+let layerCounter = 0;
+
+/**
+ * The last event that dismissed a layer. Every layer tracks the outside
+ * interactions in its own context, so the layer below the dismissed one
+ * must not be dismissed by the same event after it becomes the topmost.
+ */
+let lastDismissEvent: Event | null = null;
+
+let disabledBody: DisabledBody | null = null;
+
+/**
+ * The number of opened layers per document that the Escape listener is attached to.
+ */
+const listenerCounts = new Map<Document, number>();
+
+const handleKeyDown = (event: KeyboardEvent) => {
+  if (event.key !== ESCAPE_KEY || event.defaultPrevented) {
+    return;
+  }
+
+  const topmostLayer = layers[layers.length - 1];
+
+  if (topmostLayer) {
+    topmostLayer.onDismissRef.current('escapeKey', event);
+  }
+};
+
+/**
+ * Attaches the Escape listener to the document on its first layer.
+ * @param {Document} ownerDocument - The document of the layer element.
+ */
+const retainListener = (ownerDocument: Document) => {
+  const count = listenerCounts.get(ownerDocument) || 0;
+
+  if (count === 0) {
+    ownerDocument.addEventListener('keydown', handleKeyDown);
+  }
+
+  listenerCounts.set(ownerDocument, count + 1);
+};
+
+/**
+ * Removes the Escape listener from the document when its last layer is closed.
+ * @param {Document} ownerDocument - The document of the layer element.
+ */
+const releaseListener = (ownerDocument: Document) => {
+  const count = (listenerCounts.get(ownerDocument) || 0) - 1;
+
+  if (count > 0) {
+    listenerCounts.set(ownerDocument, count);
+
+    return;
+  }
+
+  listenerCounts.delete(ownerDocument);
+  ownerDocument.removeEventListener('keydown', handleKeyDown);
+};
+
+/**
+ * Inserts the layer into the stack after the layers that were opened before it.
+ * @param {Layer} layer - The opened layer.
+ */
+const insertLayer = (layer: Layer) => {
+  const index = layers.findIndex(({ order }) => order > layer.order);
+
+  layers =
+    index === -1
+      ? [...layers, layer]
+      : [...layers.slice(0, index), layer, ...layers.slice(index)];
+};
+
+/**
+ * Disables the pointer events of the body below the topmost modal layer
+ * and enables them for that layer and the layers above it.
+ */
+const updatePointerEvents = () => {
+  let modalIndex = -1;
+
+  layers.forEach((layer, index) => {
+    if (layer.disableOutsidePointerEvents) {
+      modalIndex = index;
+    }
+  });
+
+  layers.forEach((layer, index) => {
+    if (layer.ref.current) {
+      layer.ref.current.style.pointerEvents =
+        modalIndex !== -1 && index >= modalIndex ? 'auto' : layer.pointerEvents;
+    }
+  });
+
+  const modalElement =
+    modalIndex === -1 ? null : layers[modalIndex].ref.current;
+  const body = modalElement ? modalElement.ownerDocument.body : null;
+
+  if (disabledBody && disabledBody.body !== body) {
+    disabledBody.body.style.pointerEvents = disabledBody.pointerEvents;
+    disabledBody = null;
+  }
+
+  if (body && !disabledBody) {
+    disabledBody = { body, pointerEvents: body.style.pointerEvents };
+    body.style.pointerEvents = 'none';
+  }
+};
+
+export const useDismissableLayer = (
+  options: UseDismissableLayerOptions
+): UseDismissableLayerResult => {
+  const {
+    ref,
+    onDismiss,
+    isOpened = true,
+    disableOutsidePointerEvents = false,
+    ignoreRefs,
+  } = options;
+
+  const onDismissRef = useRef(onDismiss);
+
+  onDismissRef.current = onDismiss;
+
+  const context = useConst(
+    () => `kommo-dismissable-layer-${(layerCounter += 1)}`
+  );
+
+  const orderRef = useRef(0);
+
+  if (!isOpened) {
+    orderRef.current = 0;
+  } else if (orderRef.current === 0) {
+    orderRef.current = openCounter += 1;
+  }
+
+  const layerRef = useRef<Layer | null>(null);
+
+  /**
+   * Recreated when the layer opens, so the outside interactions are tracked
+   * from that moment in the document of the layer element.
+   */
+  const handleOutsideInteraction = useCallback(
+    (event: Event) => {
+      if (
+        event === lastDismissEvent ||
+        !layerRef.current ||
+        layers[layers.length - 1] !== layerRef.current
+      ) {
+        return;
+      }
+
+      lastDismissEvent = event;
+
+      onDismissRef.current(
+        event.type === 'pointerdown' ? 'pointerOutside' : 'focusOutside',
+        event
+      );
+    },
+    [isOpened]
+  );
+
+  /**
+   * A closed layer has no elements to check the events against,
+   * so its handler is not called.
+   */
+  const { getInsideProps } = useOnOutsideClick({
+    ref: isOpened ? ref : NO_REFS,
+    handler: handleOutsideInteraction,
+    context,
+    events: OUTSIDE_EVENTS,
+    ignoreRefs,
+  });
+
+  useEffect(() => {
+    if (!isOpened) {
+      return;
+    }
+
+    const layerElement = ref.current;
+    const ownerDocument = layerElement ? layerElement.ownerDocument : document;
+    const layer: Layer = {
+      ref,
+      onDismissRef,
+      disableOutsidePointerEvents,
+      order: orderRef.current,
+      pointerEvents: layerElement ? layerElement.style.pointerEvents : '',
+    };
+
+    layerRef.current = layer;
+
+    insertLayer(layer);
+    retainListener(ownerDocument);
+    updatePointerEvents();
+
+    return () => {
+      layerRef.current = null;
+      layers = reject(layers, layer);
+      releaseListener(ownerDocument);
+
+      if (layerElement) {
+        layerElement.style.pointerEvents = layer.pointerEvents;
+      }
+
+      updatePointerEvents();
+    };
+  }, [isOpened]);
+
+  /**
+   * The layer keeps its place in the stack when it becomes modal or stops being modal.
+   */
+  useEffect(() => {
+    if (
+      !layerRef.current ||
+      layerRef.current.disableOutsidePointerEvents ===
+        disableOutsidePointerEvents
+    ) {
+      return;
+    }
+
+    layerRef.current.disableOutsidePointerEvents = disableOutsidePointerEvents;
+
+    updatePointerEvents();
+  }, [disableOutsidePointerEvents]);
+
+  return { getLayerProps: getInsideProps };
+};
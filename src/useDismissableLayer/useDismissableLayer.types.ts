@@ -0,0 +1,53 @@
+import { MutableRefObject } from 'react';
+
+import { UseOnOutsideClickInsideProps } from '../useOnOutsideClick/useOnOutsideClick';
+
+/**
+ * The cause of the layer dismissal.
+ */
+export type UseDismissableLayerDismissReason =
+  | 'escapeKey'
+  | 'pointerOutside'
+  | 'focusOutside';
+
+/**
+ * Options for the useDismissableLayer hook.
+ */
+export interface UseDismissableLayerOptions {
+  /**
+   * Ref of the layer element.
+   */
+  ref: MutableRefObject<HTMLElement | null>;
+  /**
+   * Callback triggered when the layer is the topmost one and should be closed.
+   * Receives the reason and the event that caused it.
+   */
+  onDismiss: (reason: UseDismissableLayerDismissReason, event: Event) => void;
+  /**
+   * Whether the layer is opened. Closed layers are removed from the stack.
+   * @default true
+   */
+  isOpened?: boolean;
+  /**
+   * Whether the elements outside the layer and the layers above it
+   * do not receive pointer events while it is opened, e.g. for modal dialogs.
+   * @default false
+   */
+  disableOutsidePointerEvents?: boolean;
+  /**
+   * Refs of the elements that are treated as inside the layer,
+   * e.g. the button that toggles it.
+   */
+  ignoreRefs?: MutableRefObject<HTMLElement | null>[];
+}
+
+/**
+ * Result of the useDismissableLayer hook.
+ */
+export interface UseDismissableLayerResult {
+  /**
+   * Returns props for the layer element that treat the events
+   * inside the portals of its descendants as inside the layer.
+   */
+  getLayerProps: () => UseOnOutsideClickInsideProps;
+}
@@ -1,6 +1,13 @@
-import { KeyboardEvent } from 'react';
-import { renderHook, act } from '@testing-library/react-hooks';
+import { FocusEvent, KeyboardEvent, MouseEvent } from 'react';
+import { renderHook, act, RenderResult } from '@testing-library/react-hooks';
 import { useKeyboardListNavigation } from '../useKeyboardListNavigation';
+import {
+  UseKeyboardListNavigationGridWrap,
+  UseKeyboardListNavigationOptions,
+  UseKeyboardListNavigationResult,
+  UseKeyboardListNavigationState,
+  UseKeyboardListNavigationStateChange,
+} from '../useKeyboardListNavigation.types';
 
 describe('useKeyboardListNavigation', () => {
   const onSelect = jest.fn();
@@ -31,6 +38,26 @@ describe('useKeyboardListNavigation', () => {
     return { current: list };
   };
 
+  const press = (
+    result: Pick<
+      RenderResult<Pick<UseKeyboardListNavigationResult, 'onKeyDown'>>,
+      'current'
+    >,
+    code: string,
+    init: Partial<KeyboardEvent<HTMLDivElement>> = {}
+  ) => {
+    const event = {
+      ...createMockEvent<HTMLDivElement>(code),
+      ...init,
+    } as KeyboardEvent<HTMLDivElement>;
+
+    act(() => {
+      result.current.onKeyDown(event);
+    });
+
+    return event;
+  };
+
   it('should initialize currentHoveredIndex with hoveredIndex', () => {
     const listRef = createListRef(5);
 
@@ -178,4 +205,2017 @@ describe('useKeyboardListNavigation', () => {
 
     expect(result.current.currentHoveredIndex).toBe(2);
   });
+
+  it('should call the latest onHoveredIndexChange after rerender', () => {
+    const listRef = createListRef(3);
+    const newOnHoveredIndexChange = jest.fn();
+
+    const { result, rerender } = renderHook(
+      (props) =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          listRef,
+          ...props,
+        }),
+      { initialProps: { onHoveredIndexChange } }
+    );
+
+    rerender({ onHoveredIndexChange: newOnHoveredIndexChange });
+
+    act(() => {
+      result.current.updateListPosition(2);
+    });
+
+    press(result, 'ArrowUp');
+
+    expect(newOnHoveredIndexChange).toHaveBeenNthCalledWith(1, 2);
+    expect(newOnHoveredIndexChange).toHaveBeenNthCalledWith(2, 1);
+    expect(onHoveredIndexChange).not.toHaveBeenCalledWith(2);
+  });
+
+  it('should navigate a list wrapped in a scroll container', () => {
+    const list = createListRef(5).current;
+    const container = list.parentElement as HTMLDivElement;
+
+    Object.defineProperty(container, 'offsetHeight', { value: 40 });
+    list.querySelectorAll('li').forEach((item, index) => {
+      Object.defineProperty(item, 'offsetHeight', { value: 20 });
+      item.getBoundingClientRect = () =>
+        ({ top: index * 20 - container.scrollTop }) as DOMRect;
+    });
+
+    const { result } = renderHook(() =>
+      useKeyboardListNavigation({
+        itemsLength: 5,
+        isOpened: true,
+        onSelect,
+        onHoveredIndexChange,
+        hoveredIndex: 0,
+        listRef: { current: container },
+        scrollAlignment: 'start',
+      })
+    );
+
+    press(result, 'ArrowDown');
+    press(result, 'ArrowDown');
+
+    expect(result.current.currentHoveredIndex).toBe(2);
+    expect(container.scrollTop).toBe(40);
+  });
+
+  describe('Home, End, PageUp and PageDown', () => {
+    const renderNavigationHook = (
+      hoveredIndex: number,
+      listRef = createListRef(30)
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 30,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex,
+          listRef,
+        })
+      );
+
+    it('should move to the first item on Home', () => {
+      const { result } = renderNavigationHook(12);
+
+      press(result, 'Home');
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+
+    it('should move to the last item on End', () => {
+      const { result } = renderNavigationHook(12);
+
+      press(result, 'End');
+
+      expect(result.current.currentHoveredIndex).toBe(29);
+    });
+
+    it('should move by the number of visible items on PageDown and PageUp', () => {
+      const listRef = createListRef(30);
+
+      Object.defineProperty(listRef.current, 'clientHeight', { value: 100 });
+      listRef.current.querySelectorAll('li').forEach((item) => {
+        Object.defineProperty(item, 'offsetHeight', { value: 20 });
+      });
+
+      const { result } = renderNavigationHook(2, listRef);
+
+      press(result, 'PageDown');
+      expect(result.current.currentHoveredIndex).toBe(7);
+
+      press(result, 'PageUp');
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should stop at the list boundaries on PageUp and PageDown', () => {
+      const { result } = renderNavigationHook(25);
+
+      press(result, 'PageDown');
+      expect(result.current.currentHoveredIndex).toBe(29);
+
+      press(result, 'PageUp');
+      press(result, 'PageUp');
+      press(result, 'PageUp');
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+  });
+
+  describe('disabled items', () => {
+    const renderDisabledHook = (
+      hoveredIndex: number,
+      isItemDisabled: (index: number) => boolean
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex,
+          listRef: createListRef(5),
+          isItemDisabled,
+        })
+      );
+
+    it('should skip disabled items when navigating with arrows', () => {
+      const { result } = renderDisabledHook(0, (index) => index === 1);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowUp');
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+
+    it('should skip disabled items when wrapping around', () => {
+      const { result } = renderDisabledHook(1, (index) =>
+        [0, 4].includes(index)
+      );
+
+      press(result, 'ArrowUp');
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should move to the first and last enabled items on Home and End', () => {
+      const { result } = renderDisabledHook(2, (index) =>
+        [0, 4].includes(index)
+      );
+
+      press(result, 'Home');
+      expect(result.current.currentHoveredIndex).toBe(1);
+
+      press(result, 'End');
+      expect(result.current.currentHoveredIndex).toBe(3);
+    });
+
+    it('should not select a disabled item', () => {
+      const { result } = renderDisabledHook(2, (index) => index === 2);
+
+      act(() => {
+        result.current.updateHoveredIndex(2);
+      });
+
+      press(result, 'Enter');
+
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('should snap the initial hovered index to the first enabled item', () => {
+      const { result } = renderDisabledHook(3, (index) =>
+        [0, 3].includes(index)
+      );
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should not move when every item is disabled', () => {
+      const { result } = renderDisabledHook(0, () => true);
+
+      expect(result.current.currentHoveredIndex).toBe(-1);
+
+      press(result, 'ArrowDown');
+      press(result, 'End');
+      press(result, 'Enter');
+
+      expect(result.current.currentHoveredIndex).toBe(-1);
+      expect(onSelect).not.toHaveBeenCalled();
+      expect(onToggle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grid navigation', () => {
+    // 0 1 2
+    // 3 4 5
+    // 6 7
+    const renderGridHook = (
+      hoveredIndex: number,
+      gridWrap?: UseKeyboardListNavigationGridWrap
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 8,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex,
+          listRef: createListRef(8),
+          columns: 3,
+          gridWrap,
+        })
+      );
+
+    it('should move between neighbouring items with ArrowLeft and ArrowRight', () => {
+      const { result } = renderGridHook(4);
+
+      press(result, 'ArrowRight');
+      expect(result.current.currentHoveredIndex).toBe(5);
+
+      press(result, 'ArrowRight');
+      expect(result.current.currentHoveredIndex).toBe(6);
+
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(5);
+    });
+
+    it('should move between rows with ArrowUp and ArrowDown', () => {
+      const { result } = renderGridHook(1);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(4);
+
+      press(result, 'ArrowUp');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should handle the ragged last row', () => {
+      const { result } = renderGridHook(5);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(7);
+
+      act(() => {
+        result.current.updateHoveredIndex(2);
+      });
+
+      press(result, 'ArrowUp');
+      expect(result.current.currentHoveredIndex).toBe(5);
+    });
+
+    it('should wrap around the column by default', () => {
+      const { result } = renderGridHook(7);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should not wrap when wrapping is disabled for the axis', () => {
+      const { result } = renderGridHook(2, {
+        horizontal: false,
+        vertical: false,
+      });
+
+      press(result, 'ArrowRight');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowUp');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+  });
+
+  describe('submenus', () => {
+    const onSubmenuSelect = jest.fn();
+
+    const renderMenuHooks = () =>
+      renderHook(() => {
+        const menu = useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 1,
+          listRef: createListRef(3),
+          hasSubmenu: (index) => index === 1,
+        });
+
+        const submenu = useKeyboardListNavigation({
+          itemsLength: 3,
+          onSelect: onSubmenuSelect,
+          listRef: createListRef(3),
+          isItemDisabled: (index) => index === 0,
+          parent: menu,
+          parentIndex: 1,
+        });
+
+        return { menu, submenu };
+      });
+
+    const pressInMenu = (
+      result: ReturnType<typeof renderMenuHooks>['result'],
+      code: string
+    ) => press({ current: result.current.menu }, code);
+
+    it('should open the submenu on ArrowRight and hover its first enabled item', () => {
+      const { result } = renderMenuHooks();
+
+      pressInMenu(result, 'ArrowRight');
+
+      expect(result.current.menu.openedSubmenuIndex).toBe(1);
+      expect(result.current.submenu.currentHoveredIndex).toBe(1);
+    });
+
+    it('should pass the keys to the opened submenu', () => {
+      const { result } = renderMenuHooks();
+
+      pressInMenu(result, 'ArrowRight');
+      pressInMenu(result, 'ArrowDown');
+      pressInMenu(result, 'Enter');
+
+      expect(result.current.menu.currentHoveredIndex).toBe(1);
+      expect(result.current.submenu.currentHoveredIndex).toBe(2);
+      expect(onSubmenuSelect).toHaveBeenCalledWith(2);
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('should open the submenu on Enter instead of selecting the item', () => {
+      const { result } = renderMenuHooks();
+
+      pressInMenu(result, 'Enter');
+
+      expect(result.current.menu.openedSubmenuIndex).toBe(1);
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('should close only the submenu on ArrowLeft and Escape', () => {
+      const { result } = renderMenuHooks();
+
+      pressInMenu(result, 'ArrowRight');
+      pressInMenu(result, 'ArrowLeft');
+
+      expect(result.current.menu.openedSubmenuIndex).toBe(-1);
+      expect(result.current.menu.currentHoveredIndex).toBe(1);
+
+      pressInMenu(result, 'ArrowRight');
+      pressInMenu(result, 'Escape');
+
+      expect(result.current.menu.openedSubmenuIndex).toBe(-1);
+      expect(result.current.menu.currentHoveredIndex).toBe(1);
+      expect(onToggle).not.toHaveBeenCalled();
+
+      pressInMenu(result, 'Escape');
+
+      expect(onToggle).toHaveBeenCalledWith(false);
+    });
+
+    it('should not open a submenu for items without one', () => {
+      const { result } = renderMenuHooks();
+
+      pressInMenu(result, 'ArrowDown');
+      pressInMenu(result, 'ArrowRight');
+
+      expect(result.current.menu.openedSubmenuIndex).toBe(-1);
+    });
+  });
+
+  describe('orientation and direction', () => {
+    const renderOrientationHook = (
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'orientation' | 'direction' | 'columns'
+      >,
+      listRef = createListRef(6)
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 6,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex: 1,
+          listRef,
+          ...options,
+        })
+      );
+
+    it('should navigate with ArrowLeft and ArrowRight in the horizontal orientation', () => {
+      const { result } = renderOrientationHook({ orientation: 'horizontal' });
+
+      press(result, 'ArrowRight');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should navigate with all arrows in the both orientation', () => {
+      const { result } = renderOrientationHook({ orientation: 'both' });
+
+      press(result, 'ArrowRight');
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      press(result, 'ArrowUp');
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should swap ArrowLeft and ArrowRight in the rtl direction', () => {
+      const { result } = renderOrientationHook({
+        orientation: 'horizontal',
+        direction: 'rtl',
+      });
+
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowRight');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should swap ArrowLeft and ArrowRight in the rtl grid', () => {
+      const { result } = renderOrientationHook({
+        columns: 3,
+        direction: 'rtl',
+      });
+
+      press(result, 'ArrowLeft');
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should scroll the list horizontally in the horizontal orientation', () => {
+      const listRef = createListRef(6);
+      const item = listRef.current.children[4] as HTMLElement;
+
+      Object.defineProperty(listRef.current, 'offsetWidth', { value: 200 });
+      Object.defineProperty(item, 'offsetWidth', { value: 50 });
+      item.getBoundingClientRect = () => ({ left: 300 }) as DOMRect;
+
+      const { result } = renderOrientationHook(
+        { orientation: 'horizontal' },
+        listRef
+      );
+
+      const initialScrollLeft = listRef.current.scrollLeft;
+
+      act(() => {
+        result.current.updateListPosition(4);
+      });
+
+      expect(listRef.current.scrollLeft - initialScrollLeft).toBe(225);
+      expect(listRef.current.scrollTop).toBe(0);
+    });
+  });
+
+  describe('prop getters', () => {
+    const renderPropGettersHook = (isOpened = true) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex: 1,
+          listRef: createListRef(3),
+          isItemDisabled: (index) => index === 2,
+          id: 'users',
+        })
+      );
+
+    it('should return ARIA props for the trigger', () => {
+      const { result } = renderPropGettersHook();
+
+      expect(result.current.getTriggerProps()).toEqual(
+        expect.objectContaining({
+          'id': 'users-trigger',
+          'aria-haspopup': 'listbox',
+          'aria-expanded': true,
+          'aria-controls': 'users-list',
+          'aria-activedescendant': 'users-item-1',
+        })
+      );
+    });
+
+    it('should not point to the active descendant when the list is closed', () => {
+      const { result } = renderPropGettersHook(false);
+
+      const triggerProps = result.current.getTriggerProps();
+
+      expect(triggerProps['aria-expanded']).toBe(false);
+      expect(triggerProps['aria-activedescendant']).toBeUndefined();
+    });
+
+    it('should return ARIA props for the list', () => {
+      const { result } = renderPropGettersHook();
+
+      expect(result.current.getListProps()).toEqual({
+        'id': 'users-list',
+        'role': 'listbox',
+        'aria-orientation': 'vertical',
+        'tabIndex': -1,
+      });
+    });
+
+    it('should return ARIA props for the items', () => {
+      const { result } = renderPropGettersHook();
+
+      expect(result.current.getItemProps(1)).toEqual(
+        expect.objectContaining({
+          'id': 'users-item-1',
+          'role': 'option',
+          'aria-selected': true,
+          'aria-disabled': undefined,
+        })
+      );
+      expect(result.current.getItemProps(2)).toEqual(
+        expect.objectContaining({
+          'aria-selected': false,
+          'aria-disabled': true,
+        })
+      );
+    });
+
+    it('should sync the hovered index with the mouse', () => {
+      const { result } = renderPropGettersHook();
+
+      act(() => {
+        result.current
+          .getItemProps(0)
+          .onMouseEnter({} as MouseEvent<HTMLElement>);
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+      expect(onHoveredIndexChange).toHaveBeenCalledWith(0);
+
+      act(() => {
+        result.current
+          .getItemProps(2)
+          .onMouseEnter({} as MouseEvent<HTMLElement>);
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+
+    it('should select enabled items on click', () => {
+      const { result } = renderPropGettersHook();
+
+      act(() => {
+        result.current.getItemProps(0).onClick({} as MouseEvent<HTMLElement>);
+        result.current.getItemProps(2).onClick({} as MouseEvent<HTMLElement>);
+      });
+
+      expect(onSelect).toHaveBeenCalledTimes(1);
+      expect(onSelect).toHaveBeenCalledWith(0);
+    });
+
+    it('should generate unique ids when id is not provided', () => {
+      const { result: first } = renderHook(() =>
+        useKeyboardListNavigation({ itemsLength: 1, onSelect, listRef: null })
+      );
+      const { result: second } = renderHook(() =>
+        useKeyboardListNavigation({ itemsLength: 1, onSelect, listRef: null })
+      );
+
+      expect(first.current.getListProps().id).not.toBe(
+        second.current.getListProps().id
+      );
+    });
+  });
+
+  describe('multi-select', () => {
+    const onSelectionChange = jest.fn();
+
+    const renderMultiSelectHook = (selectedIndexes?: number[]) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 1,
+          listRef: createListRef(5),
+          isItemDisabled: (index) => index === 3,
+          isMultiSelect: true,
+          selectedIndexes,
+          onSelectionChange,
+        })
+      );
+
+    it('should toggle the hovered item on Space', () => {
+      const { result } = renderMultiSelectHook();
+
+      press(result, 'Space');
+      expect(result.current.currentSelectedIndexes).toEqual([1]);
+      expect(onSelectionChange).toHaveBeenLastCalledWith([1]);
+
+      press(result, 'Space');
+      expect(result.current.currentSelectedIndexes).toEqual([]);
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('should extend the selected range from the anchor with Shift+Arrow', () => {
+      const { result } = renderMultiSelectHook();
+
+      press(result, 'ArrowDown', { shiftKey: true });
+      expect(result.current.currentSelectedIndexes).toEqual([1, 2]);
+
+      press(result, 'ArrowDown', { shiftKey: true });
+      expect(result.current.currentHoveredIndex).toBe(4);
+      expect(result.current.currentSelectedIndexes).toEqual([1, 2, 4]);
+
+      press(result, 'ArrowUp', { shiftKey: true });
+      expect(result.current.currentSelectedIndexes).toEqual([1, 2]);
+    });
+
+    it('should use the last toggled item as the anchor', () => {
+      const { result } = renderMultiSelectHook();
+
+      press(result, 'ArrowDown');
+      press(result, 'Space');
+      press(result, 'ArrowUp', { shiftKey: true });
+      press(result, 'ArrowUp', { shiftKey: true });
+
+      expect(result.current.currentSelectedIndexes).toEqual([0, 1, 2]);
+    });
+
+    it('should select all enabled items with Ctrl+A and Cmd+A', () => {
+      const { result } = renderMultiSelectHook();
+
+      press(result, 'KeyA', { ctrlKey: true });
+      expect(result.current.currentSelectedIndexes).toEqual([0, 1, 2, 4]);
+
+      press(result, 'Escape');
+      press(result, 'KeyA', { metaKey: true });
+      expect(result.current.currentSelectedIndexes).toEqual([0, 1, 2, 4]);
+    });
+
+    it('should clear the selection on Escape before closing', () => {
+      const { result } = renderMultiSelectHook([0, 2]);
+
+      expect(result.current.currentSelectedIndexes).toEqual([0, 2]);
+
+      press(result, 'Escape');
+      expect(result.current.currentSelectedIndexes).toEqual([]);
+      expect(onToggle).not.toHaveBeenCalled();
+
+      press(result, 'Escape');
+      expect(onToggle).toHaveBeenCalledWith(false);
+    });
+
+    it('should still call onSelect on Enter', () => {
+      const { result } = renderMultiSelectHook();
+
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(1);
+    });
+
+    it('should not reset the selection when selectedIndexes are passed inline', () => {
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          hoveredIndex: 0,
+          listRef: createListRef(5),
+          isMultiSelect: true,
+          selectedIndexes: [2],
+        })
+      );
+
+      press(result, 'Space');
+
+      expect(result.current.currentSelectedIndexes).toEqual([0, 2]);
+    });
+
+    it('should mark the selected items with aria-selected', () => {
+      const { result } = renderMultiSelectHook([2]);
+
+      expect(result.current.getListProps()['aria-multiselectable']).toBe(true);
+      expect(result.current.getItemProps(1)['aria-selected']).toBe(false);
+      expect(result.current.getItemProps(2)['aria-selected']).toBe(true);
+    });
+  });
+
+  describe('virtualized lists', () => {
+    it('should use scrollToIndex instead of scrolling the list', () => {
+      const scrollToIndex = jest.fn();
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 10000,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex: 0,
+          listRef: null,
+          scrollToIndex,
+        })
+      );
+
+      press(result, 'End');
+
+      expect(scrollToIndex).toHaveBeenLastCalledWith(9999);
+      expect(result.current.currentHoveredIndex).toBe(9999);
+      expect(onHoveredIndexChange).toHaveBeenLastCalledWith(9999);
+    });
+
+    it('should scroll to the element returned by getItemElement', () => {
+      const listRef = createListRef(0);
+      const items: HTMLElement[] = [];
+
+      for (let i = 0; i < 3; i++) {
+        const wrapper = document.createElement('div');
+        const item = document.createElement('div');
+
+        wrapper.appendChild(item);
+        listRef.current.appendChild(wrapper);
+        items.push(item);
+      }
+
+      const getItemElement = jest.fn((index: number) => items[index]);
+
+      Object.defineProperty(listRef.current, 'offsetHeight', { value: 100 });
+      items[2].getBoundingClientRect = () => ({ top: 200 }) as DOMRect;
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 0,
+          listRef,
+          getItemElement,
+        })
+      );
+
+      const initialScrollTop = listRef.current.scrollTop;
+
+      act(() => {
+        result.current.updateListPosition(2);
+      });
+
+      expect(getItemElement).toHaveBeenCalledWith(2);
+      expect(listRef.current.scrollTop - initialScrollTop).toBe(150);
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should not scroll to an item when none can be hovered', () => {
+      const scrollToIndex = jest.fn();
+
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 0,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          listRef: null,
+          scrollToIndex,
+        })
+      );
+
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          listRef: null,
+          scrollToIndex,
+          isItemDisabled: () => true,
+        })
+      );
+
+      expect(scrollToIndex).not.toHaveBeenCalled();
+      expect(onHoveredIndexChange).not.toHaveBeenCalledWith(-1);
+    });
+
+    it('should hover the item whose element is not rendered', () => {
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          hoveredIndex: 0,
+          listRef: createListRef(3),
+          getItemElement: () => null,
+        })
+      );
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+      expect(onHoveredIndexChange).toHaveBeenLastCalledWith(1);
+    });
+  });
+
+  describe('key bindings', () => {
+    const renderKeyBindingsHook = (
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'keyBindings' | 'keyMatch' | 'isOpened'
+      >
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 2,
+          listRef: createListRef(5),
+          ...options,
+        })
+      );
+
+    it('should support Vim-style bindings', () => {
+      const { result } = renderKeyBindingsHook({
+        keyBindings: {
+          next: ['ArrowDown', 'KeyJ'],
+          prev: ['ArrowUp', 'KeyK'],
+        },
+      });
+
+      press(result, 'KeyJ', { key: 'j' });
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      press(result, 'KeyK', { key: 'k' });
+      press(result, 'ArrowUp', { key: 'ArrowUp' });
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should replace the default bindings of the configured actions only', () => {
+      const { result } = renderKeyBindingsHook({
+        keyBindings: { next: ['KeyJ'] },
+      });
+
+      press(result, 'ArrowDown', { key: 'ArrowDown' });
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'Home', { key: 'Home' });
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+
+    it('should match bindings against key when keyMatch is key', () => {
+      const { result } = renderKeyBindingsHook({
+        keyMatch: 'key',
+        keyBindings: { next: ['j'] },
+      });
+
+      // "j" on a layout where it is not on the KeyJ position
+      press(result, 'KeyC', { key: 'j' });
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      press(result, 'Space', { key: ' ' });
+      expect(onSelect).toHaveBeenCalledWith(3);
+    });
+
+    it('should check the modifiers specified in the binding', () => {
+      const { result } = renderKeyBindingsHook({
+        keyBindings: { next: [{ key: 'KeyN', ctrlKey: true }] },
+      });
+
+      press(result, 'KeyN', { key: 'n' });
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'KeyN', { key: 'n', ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(3);
+    });
+
+    it('should bind the open action', () => {
+      const { result } = renderKeyBindingsHook({
+        isOpened: false,
+        keyBindings: { open: ['ArrowDown'] },
+      });
+
+      press(result, 'ArrowDown', { key: 'ArrowDown' });
+      expect(onToggle).toHaveBeenLastCalledWith(true);
+
+      press(result, 'Enter', { key: 'Enter' });
+      expect(onToggle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not swallow Space typed into a text input', () => {
+      const { result } = renderKeyBindingsHook({});
+
+      const event = press(result, 'Space', {
+        key: ' ',
+        target: document.createElement('input'),
+      });
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(onSelect).not.toHaveBeenCalled();
+
+      press(result, 'Enter', {
+        key: 'Enter',
+        target: document.createElement('input'),
+      });
+
+      expect(onSelect).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('non-looping navigation', () => {
+    const onBoundaryReached = jest.fn();
+
+    const renderNonLoopingHook = (
+      hoveredIndex: number,
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'columns' | 'gridWrap' | 'isItemDisabled'
+      > = {}
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 4,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex,
+          listRef: createListRef(4),
+          loop: false,
+          onBoundaryReached,
+          ...options,
+        })
+      );
+
+    it('should stop at the first item and report the start boundary', () => {
+      const { result } = renderNonLoopingHook(0);
+
+      press(result, 'ArrowUp');
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+      expect(onBoundaryReached).toHaveBeenCalledWith('start');
+    });
+
+    it('should stop at the last item and report the end boundary', () => {
+      const { result } = renderNonLoopingHook(2);
+
+      press(result, 'ArrowDown');
+      expect(onBoundaryReached).not.toHaveBeenCalled();
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(3);
+      expect(onBoundaryReached).toHaveBeenCalledWith('end');
+    });
+
+    it('should treat trailing disabled items as the boundary', () => {
+      const { result } = renderNonLoopingHook(2, {
+        isItemDisabled: (index) => index === 3,
+      });
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+      expect(onBoundaryReached).toHaveBeenCalledWith('end');
+    });
+
+    it('should report the boundaries of the grid without vertical wrapping', () => {
+      const { result } = renderNonLoopingHook(1, {
+        columns: 2,
+        gridWrap: { vertical: false },
+      });
+
+      press(result, 'ArrowUp');
+      expect(onBoundaryReached).toHaveBeenLastCalledWith('start');
+
+      press(result, 'ArrowDown');
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(3);
+      expect(onBoundaryReached).toHaveBeenLastCalledWith('end');
+    });
+  });
+
+  describe('scroll alignment', () => {
+    const createScrollContainerRef = () => {
+      const container = document.createElement('div');
+
+      Object.defineProperty(container, 'offsetHeight', { value: 100 });
+
+      for (let i = 0; i < 10; i++) {
+        const item = document.createElement('div');
+
+        Object.defineProperty(item, 'offsetHeight', { value: 20 });
+        item.getBoundingClientRect = () =>
+          ({ top: i * 20 - container.scrollTop }) as DOMRect;
+        container.appendChild(item);
+      }
+
+      return { current: container };
+    };
+
+    const scrollTo = (
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'scrollAlignment' | 'scrollBehavior' | 'scrollPadding'
+      >,
+      index: number
+    ) => {
+      const listRef = createScrollContainerRef();
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 10,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 0,
+          listRef,
+          ...options,
+        })
+      );
+
+      listRef.current.scrollTop = 0;
+
+      act(() => {
+        result.current.updateListPosition(index);
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(index);
+
+      return listRef.current;
+    };
+
+    it('should center the item by default', () => {
+      expect(scrollTo({}, 5).scrollTop).toBe(60);
+    });
+
+    it('should not scroll to a fully visible item with nearest alignment', () => {
+      expect(scrollTo({ scrollAlignment: 'nearest' }, 3).scrollTop).toBe(0);
+    });
+
+    it('should scroll by the minimal distance with nearest alignment', () => {
+      expect(scrollTo({ scrollAlignment: 'nearest' }, 6).scrollTop).toBe(40);
+    });
+
+    it('should align the item with the start or the end of the list', () => {
+      expect(scrollTo({ scrollAlignment: 'start' }, 5).scrollTop).toBe(100);
+      expect(scrollTo({ scrollAlignment: 'end' }, 5).scrollTop).toBe(20);
+    });
+
+    it('should keep the item out of the scroll padding', () => {
+      expect(
+        scrollTo({ scrollAlignment: 'start', scrollPadding: 30 }, 5).scrollTop
+      ).toBe(70);
+      expect(
+        scrollTo({ scrollAlignment: 'nearest', scrollPadding: { end: 30 } }, 3)
+          .scrollTop
+      ).toBe(10);
+    });
+
+    it('should not scroll with none alignment', () => {
+      expect(scrollTo({ scrollAlignment: 'none' }, 9).scrollTop).toBe(0);
+    });
+
+    it('should scroll smoothly when the container supports scrollTo', () => {
+      const listRef = createScrollContainerRef();
+      const scrollToMock = jest.fn();
+
+      listRef.current.scrollTo = scrollToMock;
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 10,
+          isOpened: true,
+          onSelect,
+          onToggle,
+          hoveredIndex: 0,
+          listRef,
+          scrollAlignment: 'start',
+          scrollBehavior: 'smooth',
+        })
+      );
+
+      act(() => {
+        result.current.updateListPosition(5);
+      });
+
+      expect(scrollToMock).toHaveBeenLastCalledWith({
+        top: 100,
+        left: undefined,
+        behavior: 'smooth',
+      });
+    });
+  });
+
+  describe('roving focus', () => {
+    const createFocusableListRef = () => {
+      const listRef = createListRef(3);
+
+      Array.from(listRef.current.children).forEach((item) => {
+        (item as HTMLElement).tabIndex = -1;
+      });
+      document.body.appendChild(listRef.current.parentElement as HTMLElement);
+
+      return listRef;
+    };
+
+    const renderRovingHook = (listRef = createFocusableListRef()) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          listRef,
+          id: 'toolbar',
+          focusStrategy: 'roving',
+        })
+      );
+
+    const focusEvent = {} as FocusEvent<HTMLElement>;
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should make only the hovered item tabbable', () => {
+      const { result } = renderRovingHook();
+
+      expect(result.current.getItemProps(0).tabIndex).toBe(0);
+      expect(result.current.getItemProps(1).tabIndex).toBe(-1);
+      expect(result.current.getItemProps(2).tabIndex).toBe(-1);
+      expect(
+        result.current.getTriggerProps()['aria-activedescendant']
+      ).toBeUndefined();
+    });
+
+    it('should not manage tabIndex with the virtual focus', () => {
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 3,
+          isOpened: true,
+          onSelect,
+          listRef: createListRef(3),
+        })
+      );
+
+      expect(result.current.getItemProps(0).tabIndex).toBeUndefined();
+      expect(result.current.getListProps().onKeyDown).toBeUndefined();
+    });
+
+    it('should move the DOM focus with the hovered item', () => {
+      const listRef = createFocusableListRef();
+      const { result } = renderRovingHook(listRef);
+      const items = listRef.current.children;
+
+      act(() => {
+        (items[0] as HTMLElement).focus();
+        result.current.getItemProps(0).onFocus(focusEvent);
+      });
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+      expect(document.activeElement).toBe(items[1]);
+      expect(result.current.getItemProps(1).tabIndex).toBe(0);
+    });
+
+    it('should not steal the focus after it leaves the items', () => {
+      const listRef = createFocusableListRef();
+      const { result } = renderRovingHook(listRef);
+
+      act(() => {
+        result.current.getItemProps(0).onFocus(focusEvent);
+        result.current.getItemProps(0).onBlur(focusEvent);
+      });
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+      expect(document.activeElement).toBe(document.body);
+    });
+
+    it('should remember the last focused item', () => {
+      const { result } = renderRovingHook();
+
+      act(() => {
+        result.current.getItemProps(2).onFocus(focusEvent);
+        result.current.getItemProps(2).onBlur(focusEvent);
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+      expect(result.current.getItemProps(2).tabIndex).toBe(0);
+    });
+
+    it('should not move the hovered item with the mouse', () => {
+      const { result } = renderRovingHook();
+
+      act(() => {
+        result.current
+          .getItemProps(1)
+          .onMouseEnter({} as MouseEvent<HTMLElement>);
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+  });
+
+  describe('groups', () => {
+    // Recently used: 0-1, Team: 2-4, All users: 5-7
+    const groups = [{ itemsLength: 2 }, { itemsLength: 3 }, { itemsLength: 3 }];
+
+    const createGroupedListRef = () => {
+      const list = document.createElement('ul');
+      let index = 0;
+
+      groups.forEach((group) => {
+        const groupElement = document.createElement('li');
+        const header = document.createElement('div');
+
+        groupElement.appendChild(header);
+
+        for (let i = 0; i < group.itemsLength; i++) {
+          const item = document.createElement('div');
+
+          item.id = `users-item-${index}`;
+          groupElement.appendChild(item);
+          index += 1;
+        }
+
+        list.appendChild(groupElement);
+      });
+
+      return { current: list };
+    };
+
+    const renderGroupedHook = (
+      hoveredIndex: number,
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'groups' | 'isItemDisabled' | 'loop' | 'onBoundaryReached'
+      > = { groups }
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 8,
+          isOpened: true,
+          onSelect,
+          hoveredIndex,
+          listRef: createGroupedListRef(),
+          id: 'users',
+          ...options,
+        })
+      );
+
+    it('should jump to the first item of the next group with Ctrl+ArrowDown', () => {
+      const { result } = renderGroupedHook(0);
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(5);
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+
+    it('should jump to the first item of the previous group with Ctrl+ArrowUp', () => {
+      const { result } = renderGroupedHook(6);
+
+      press(result, 'ArrowUp', { ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      press(result, 'ArrowUp', { ctrlKey: true });
+      press(result, 'ArrowUp', { ctrlKey: true });
+      expect(result.current.currentHoveredIndex).toBe(5);
+    });
+
+    it('should skip groups without enabled items', () => {
+      const { result } = renderGroupedHook(0, {
+        groups,
+        isItemDisabled: (index) => index >= 2 && index <= 5,
+      });
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+
+      expect(result.current.currentHoveredIndex).toBe(6);
+    });
+
+    it('should report the boundary instead of wrapping without loop', () => {
+      const onBoundaryReached = jest.fn();
+      const { result } = renderGroupedHook(5, {
+        groups,
+        loop: false,
+        onBoundaryReached,
+      });
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+
+      expect(result.current.currentHoveredIndex).toBe(5);
+      expect(onBoundaryReached).toHaveBeenCalledWith('end');
+    });
+
+    it('should move by one item with Ctrl+ArrowDown without groups', () => {
+      const { result } = renderGroupedHook(0, {});
+
+      press(result, 'ArrowDown', { ctrlKey: true });
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should move across the group boundaries with the arrow keys', () => {
+      const { result } = renderGroupedHook(1);
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should find the items by id to scroll to them', () => {
+      const listRef = createGroupedListRef();
+      const item = listRef.current.querySelector(
+        '#users-item-5'
+      ) as HTMLElement;
+
+      Object.defineProperty(listRef.current, 'offsetHeight', { value: 100 });
+      item.getBoundingClientRect = () => ({ top: 200 }) as DOMRect;
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 8,
+          isOpened: true,
+          onSelect,
+          listRef,
+          id: 'users',
+          groups,
+          scrollAlignment: 'start',
+        })
+      );
+
+      const initialScrollTop = listRef.current.scrollTop;
+
+      act(() => {
+        result.current.updateListPosition(5);
+      });
+
+      expect(listRef.current.scrollTop - initialScrollTop).toBe(200);
+    });
+
+    it('should return ARIA props for the groups', () => {
+      const { result } = renderGroupedHook(0);
+
+      expect(result.current.getGroupProps(1)).toEqual({
+        'role': 'group',
+        'aria-labelledby': 'users-group-1-label',
+      });
+      expect(result.current.getGroupLabelProps(1)).toEqual({
+        id: 'users-group-1-label',
+        role: 'presentation',
+      });
+    });
+  });
+
+  describe('item registration', () => {
+    const createItems = (labels: string[]) => {
+      const list = document.createElement('div');
+
+      const items = labels.map((label) => {
+        const item = document.createElement('div');
+
+        item.textContent = label;
+        list.appendChild(item);
+
+        return item;
+      });
+
+      return { listRef: { current: list }, items };
+    };
+
+    const renderRegistrationHook = (
+      listRef: ReturnType<typeof createItems>['listRef']
+    ) =>
+      renderHook(() =>
+        useKeyboardListNavigation<string>({
+          isOpened: true,
+          onSelect,
+          listRef,
+        })
+      );
+
+    it('should navigate the registered items in the document order', () => {
+      const { listRef, items } = createItems(['Anna', 'John', 'Mark']);
+      const { result, rerender } = renderRegistrationHook(listRef);
+
+      [2, 0, 1].forEach((index) => {
+        result.current.registerItem({ value: items[index].textContent || '' })(
+          items[index]
+        );
+      });
+      rerender();
+
+      expect(result.current.getItemIndex('Anna')).toBe(0);
+      expect(result.current.getItemIndex('Mark')).toBe(2);
+
+      press(result, 'ArrowDown');
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(1, 'John');
+    });
+
+    it('should skip the items registered as disabled', () => {
+      const { listRef, items } = createItems(['Anna', 'John', 'Mark']);
+      const { result, rerender } = renderRegistrationHook(listRef);
+
+      items.forEach((item, index) => {
+        result.current.registerItem({
+          value: item.textContent || '',
+          disabled: index === 1,
+        })(item);
+      });
+      rerender();
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+      expect(result.current.getItemProps(1)['aria-disabled']).toBe(true);
+    });
+
+    it('should hover the first enabled item when the first registered one is disabled', () => {
+      const { listRef, items } = createItems(['Anna', 'John', 'Mark']);
+      const { result, rerender } = renderRegistrationHook(listRef);
+
+      items.forEach((item, index) => {
+        result.current.registerItem({
+          value: item.textContent || '',
+          disabled: index === 0,
+        })(item);
+      });
+      rerender();
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(1, 'John');
+    });
+
+    it('should follow unmounted and reordered items', () => {
+      const { listRef, items } = createItems(['Anna', 'John', 'Mark']);
+      const { result, rerender } = renderRegistrationHook(listRef);
+
+      const refs = items.map((item) => {
+        const ref = result.current.registerItem({
+          value: item.textContent || '',
+        });
+
+        ref(item);
+
+        return ref;
+      });
+      rerender();
+
+      act(() => {
+        refs[0](null);
+        listRef.current.insertBefore(items[2], items[1]);
+      });
+      rerender();
+
+      expect(result.current.getItemIndex('Anna')).toBe(-1);
+      expect(result.current.getItemIndex('Mark')).toBe(0);
+      expect(result.current.getItemIndex('John')).toBe(1);
+
+      press(result, 'End');
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(1, 'John');
+    });
+  });
+
+  describe('pointer and keyboard hover', () => {
+    const renderHoverHook = () =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          listRef: createListRef(5),
+        })
+      );
+
+    const createMouseEvent = (clientX: number, clientY: number) =>
+      ({ clientX, clientY }) as MouseEvent<HTMLElement>;
+
+    it('should ignore mouseenter caused by scrolling during keyboard navigation', () => {
+      const { result } = renderHoverHook();
+
+      press(result, 'ArrowDown');
+
+      act(() => {
+        result.current.getItemProps(3).onMouseEnter(createMouseEvent(10, 40));
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should ignore mousemove without pointer movement', () => {
+      const { result } = renderHoverHook();
+
+      act(() => {
+        result.current.getItemProps(0).onMouseMove(createMouseEvent(10, 40));
+      });
+
+      press(result, 'ArrowDown');
+
+      act(() => {
+        result.current.getItemProps(3).onMouseEnter(createMouseEvent(10, 40));
+        result.current.getItemProps(3).onMouseMove(createMouseEvent(10, 40));
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should hover the item when the pointer actually moves', () => {
+      const { result } = renderHoverHook();
+
+      press(result, 'ArrowDown');
+
+      act(() => {
+        result.current.getItemProps(3).onMouseEnter(createMouseEvent(10, 40));
+      });
+      act(() => {
+        result.current.getItemProps(3).onMouseMove(createMouseEvent(12, 41));
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      act(() => {
+        result.current.getItemProps(4).onMouseEnter(createMouseEvent(12, 52));
+      });
+
+      expect(result.current.currentHoveredIndex).toBe(4);
+    });
+  });
+
+  describe('state reducer', () => {
+    const renderReducerHook = (
+      options: Pick<
+        UseKeyboardListNavigationOptions,
+        'stateReducer' | 'hoveredIndex' | 'isMultiSelect'
+      > = {}
+    ) =>
+      renderHook(
+        (props: Pick<UseKeyboardListNavigationOptions, 'hoveredIndex'>) =>
+          useKeyboardListNavigation({
+            itemsLength: 5,
+            isOpened: true,
+            onSelect,
+            onToggle,
+            listRef: createListRef(5),
+            ...options,
+            ...props,
+          }),
+        { initialProps: { hoveredIndex: options.hoveredIndex } }
+      );
+
+    it('should pass the current state and the proposed changes', () => {
+      const stateReducer = jest.fn<
+        UseKeyboardListNavigationState,
+        [UseKeyboardListNavigationState, UseKeyboardListNavigationStateChange]
+      >((_state, { changes }) => changes);
+      const { result } = renderReducerHook({ stateReducer, hoveredIndex: 1 });
+
+      press(result, 'ArrowDown');
+
+      expect(stateReducer).toHaveBeenCalledWith(
+        {
+          hoveredIndex: 1,
+          isOpened: true,
+          selectedIndexes: [],
+          openedSubmenuIndex: -1,
+        },
+        {
+          type: 'Next',
+          changes: {
+            hoveredIndex: 2,
+            isOpened: true,
+            selectedIndexes: [],
+            openedSubmenuIndex: -1,
+          },
+        }
+      );
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should keep the list opened on Escape', () => {
+      const { result } = renderReducerHook({
+        stateReducer: (state, { type, changes }) =>
+          type === 'Escape'
+            ? { ...changes, isOpened: state.isOpened }
+            : changes,
+      });
+
+      press(result, 'Escape');
+
+      expect(onToggle).not.toHaveBeenCalled();
+    });
+
+    it('should close the list on select', () => {
+      const { result } = renderReducerHook({
+        stateReducer: (_state, { type, changes }) =>
+          type === 'Select' ? { ...changes, isOpened: false } : changes,
+      });
+
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(0);
+      expect(onToggle).toHaveBeenCalledWith(false);
+    });
+
+    it('should override the hovered index', () => {
+      const { result } = renderReducerHook({
+        stateReducer: (_state, { type, changes }) =>
+          type === 'Next'
+            ? {
+                ...changes,
+                hoveredIndex: Math.min(changes.hoveredIndex + 1, 4),
+              }
+            : changes,
+      });
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+    });
+
+    it('should keep the selection on Escape in the multi-select mode', () => {
+      const { result } = renderReducerHook({
+        isMultiSelect: true,
+        stateReducer: (state, { type, changes }) =>
+          type === 'Escape'
+            ? { ...changes, selectedIndexes: state.selectedIndexes }
+            : changes,
+      });
+
+      act(() => {
+        result.current.getItemProps(1).onClick({} as MouseEvent<HTMLElement>);
+      });
+
+      press(result, 'Escape');
+
+      expect(result.current.currentSelectedIndexes).toEqual([1]);
+    });
+
+    it('should not call onSelect when the Select transition is cancelled', () => {
+      const { result } = renderReducerHook({
+        stateReducer: (state, { type, changes }) =>
+          type === 'Select' ? state : changes,
+      });
+
+      press(result, 'Enter');
+
+      act(() => {
+        result.current.getItemProps(2).onClick({} as MouseEvent<HTMLElement>);
+      });
+
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('should select the item chosen by the reducer', () => {
+      const { result } = renderReducerHook({
+        stateReducer: (_state, { type, changes }) =>
+          type === 'Select' ? { ...changes, hoveredIndex: 3 } : changes,
+      });
+
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledTimes(1);
+      expect(onSelect).toHaveBeenCalledWith(3);
+      expect(result.current.currentHoveredIndex).toBe(3);
+    });
+
+    it('should run opening and closing the submenus through the reducer', () => {
+      const stateReducer = jest.fn<
+        UseKeyboardListNavigationState,
+        [UseKeyboardListNavigationState, UseKeyboardListNavigationStateChange]
+      >((state, { type, changes }) =>
+        type === 'OpenSubmenu' && changes.openedSubmenuIndex === 2
+          ? state
+          : changes
+      );
+
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: 5,
+          isOpened: true,
+          onSelect,
+          listRef: createListRef(5),
+          hasSubmenu: (index) => index === 1 || index === 2,
+          stateReducer,
+        })
+      );
+
+      act(() => {
+        result.current.openSubmenu(2);
+      });
+      expect(result.current.openedSubmenuIndex).toBe(-1);
+
+      act(() => {
+        result.current.openSubmenu(1);
+      });
+      expect(result.current.openedSubmenuIndex).toBe(1);
+
+      act(() => {
+        result.current.closeSubmenu();
+      });
+      expect(stateReducer).toHaveBeenLastCalledWith(
+        expect.objectContaining({ openedSubmenuIndex: 1 }),
+        expect.objectContaining({
+          type: 'CloseSubmenu',
+          changes: expect.objectContaining({
+            openedSubmenuIndex: -1,
+            hoveredIndex: 1,
+          }),
+        })
+      );
+      expect(result.current.openedSubmenuIndex).toBe(-1);
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should still sync the controlled hoveredIndex', () => {
+      const { result, rerender } = renderReducerHook({
+        stateReducer: (_state, { changes }) => changes,
+        hoveredIndex: 0,
+      });
+
+      rerender({ hoveredIndex: 3 });
+
+      expect(result.current.currentHoveredIndex).toBe(3);
+    });
+  });
+
+  describe('load more', () => {
+    const onLoadMore = jest.fn();
+
+    const renderLoadMoreHook = (
+      initialProps: Pick<
+        UseKeyboardListNavigationOptions,
+        | 'itemsLength'
+        | 'hoveredIndex'
+        | 'isLoading'
+        | 'hasMore'
+        | 'focusStrategy'
+      >
+    ) =>
+      renderHook(
+        (props) =>
+          useKeyboardListNavigation({
+            isOpened: true,
+            onSelect,
+            onHoveredIndexChange,
+            listRef: createListRef(20),
+            onLoadMore,
+            ...props,
+          }),
+        { initialProps }
+      );
+
+    it('should load more items when the hovered item is close to the end', () => {
+      const { result } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 5,
+        hasMore: true,
+      });
+
+      press(result, 'ArrowDown');
+      expect(onLoadMore).not.toHaveBeenCalled();
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(7);
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not load more items while loading or without more items', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 8,
+        hasMore: true,
+        isLoading: true,
+      });
+
+      press(result, 'ArrowDown');
+
+      rerender({ itemsLength: 10, hoveredIndex: 8, hasMore: false });
+
+      press(result, 'ArrowUp');
+
+      expect(onLoadMore).not.toHaveBeenCalled();
+    });
+
+    it('should stay on the last item instead of looping while there are more items', () => {
+      const { result } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 9,
+        hasMore: true,
+        isLoading: true,
+      });
+
+      press(result, 'ArrowDown');
+
+      expect(result.current.currentHoveredIndex).toBe(9);
+    });
+
+    it('should keep the hovered index when items are appended', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 9,
+        hasMore: true,
+      });
+
+      rerender({ itemsLength: 20, hoveredIndex: 9, hasMore: true });
+      expect(result.current.currentHoveredIndex).toBe(9);
+
+      press(result, 'ArrowDown');
+      expect(result.current.currentHoveredIndex).toBe(10);
+    });
+
+    it('should move the hovered index to the last item when the list shrinks', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 8,
+      });
+
+      rerender({ itemsLength: 3, hoveredIndex: 8 });
+
+      expect(result.current.currentHoveredIndex).toBe(2);
+      expect(onHoveredIndexChange).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should reset the hovered index when the list becomes empty', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 10,
+        hoveredIndex: 8,
+        focusStrategy: 'virtual',
+      });
+
+      rerender({ itemsLength: 0, hoveredIndex: 8, focusStrategy: 'virtual' });
+
+      expect(result.current.currentHoveredIndex).toBe(-1);
+      expect(onHoveredIndexChange).toHaveBeenLastCalledWith(-1);
+      expect(
+        result.current.getListProps()['aria-activedescendant']
+      ).toBeUndefined();
+    });
+
+    it('should hover the first item when the empty list is filled again', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 5,
+        hoveredIndex: 3,
+      });
+
+      rerender({ itemsLength: 0, hoveredIndex: 3 });
+      rerender({ itemsLength: 5, hoveredIndex: 3 });
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+      expect(onHoveredIndexChange).toHaveBeenLastCalledWith(0);
+
+      press(result, 'Enter');
+
+      expect(onSelect).toHaveBeenCalledWith(0);
+    });
+
+    it('should not reset the hovered index of a list that starts empty', () => {
+      const { result, rerender } = renderLoadMoreHook({
+        itemsLength: 0,
+        hoveredIndex: 0,
+      });
+
+      expect(onHoveredIndexChange).not.toHaveBeenCalledWith(-1);
+
+      rerender({ itemsLength: 5, hoveredIndex: 0 });
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+      expect(onHoveredIndexChange).not.toHaveBeenCalledWith(-1);
+    });
+
+    it('should mark the list as busy while loading', () => {
+      const { result } = renderLoadMoreHook({
+        itemsLength: 10,
+        isLoading: true,
+      });
+
+      expect(result.current.getListProps()['aria-busy']).toBe(true);
+    });
+  });
+
+  describe('typeahead', () => {
+    const items = ['Anna', 'John', 'Jorge', 'Julia', 'Mark'];
+    const getItemLabel = (index: number) => items[index];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const renderTypeaheadHook = (hoveredIndex = 0) =>
+      renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: items.length,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex,
+          listRef: createListRef(items.length),
+          getItemLabel,
+        })
+      );
+
+    const type = (
+      result: ReturnType<typeof renderTypeaheadHook>['result'],
+      key: string
+    ) => press(result, `Key${key.toUpperCase()}`, { key });
+
+    it('should move to the item matching the typed characters', () => {
+      const { result } = renderTypeaheadHook();
+
+      type(result, 'j');
+      type(result, 'u');
+
+      expect(result.current.currentHoveredIndex).toBe(3);
+    });
+
+    it('should cycle through items when the same letter is repeated', () => {
+      const { result } = renderTypeaheadHook();
+
+      type(result, 'j');
+      expect(result.current.currentHoveredIndex).toBe(1);
+
+      type(result, 'j');
+      expect(result.current.currentHoveredIndex).toBe(2);
+
+      type(result, 'j');
+      expect(result.current.currentHoveredIndex).toBe(3);
+
+      type(result, 'j');
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should reset the search string after the timeout', () => {
+      const { result } = renderTypeaheadHook();
+
+      type(result, 'j');
+
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+
+      type(result, 'm');
+
+      expect(result.current.currentHoveredIndex).toBe(4);
+    });
+
+    it('should keep the hovered index when nothing matches', () => {
+      const { result } = renderTypeaheadHook(1);
+
+      type(result, 'z');
+
+      expect(result.current.currentHoveredIndex).toBe(1);
+    });
+
+    it('should not handle printable keys when getItemLabel is not provided', () => {
+      const { result } = renderHook(() =>
+        useKeyboardListNavigation({
+          itemsLength: items.length,
+          isOpened: true,
+          onSelect,
+          onHoveredIndexChange,
+          onToggle,
+          hoveredIndex: 0,
+          listRef: createListRef(items.length),
+        })
+      );
+
+      type(result, 'j');
+
+      expect(result.current.currentHoveredIndex).toBe(0);
+    });
+  });
 });
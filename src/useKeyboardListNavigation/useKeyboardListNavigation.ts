@@ -1,187 +1,1969 @@
 import {
   KeyboardEvent,
-  KeyboardEventHandler,
-  MutableRefObject,
+  MouseEvent,
+  RefCallback,
   useCallback,
   useEffect,
+  useLayoutEffect,
+  useRef,
   useState,
 } from 'react';
 
-interface UseKeyboardListNavigationOptions {
-  /**
-   * The total number of items available for navigation.
-   */
-  itemsLength: number;
-  /**
-   * A boolean indicating whether the navigation context is currently open.
-   */
-  isOpened?: boolean;
+import {
+  UseKeyboardListNavigationAction,
+  UseKeyboardListNavigationDirection,
+  UseKeyboardListNavigationGridWrap,
+  UseKeyboardListNavigationGroup,
+  UseKeyboardListNavigationGroupLabelProps,
+  UseKeyboardListNavigationGroupProps,
+  UseKeyboardListNavigationItemProps,
+  UseKeyboardListNavigationItemRegistration,
+  UseKeyboardListNavigationKeyBinding,
+  UseKeyboardListNavigationKeyBindings,
+  UseKeyboardListNavigationKeyMatch,
+  UseKeyboardListNavigationListProps,
+  UseKeyboardListNavigationOptions,
+  UseKeyboardListNavigationOrientation,
+  UseKeyboardListNavigationResult,
+  UseKeyboardListNavigationScrollAlignment,
+  UseKeyboardListNavigationState,
+  UseKeyboardListNavigationStateChange,
+  UseKeyboardListNavigationStateChangeType,
+  UseKeyboardListNavigationTriggerProps,
+} from './useKeyboardListNavigation.types';
+import { useConst } from '../useConst';
+import { useDeepCompareEffect } from '../useDeepCompareEffect';
+import { useDidUpdateEffect } from '../useDidUpdateEffect';
+import { usePrevious } from '../usePrevious';
+import { isEqual, reject } from '@utils';
+
+const UP_KEY = 'ArrowUp';
+const DOWN_KEY = 'ArrowDown';
+const LEFT_KEY = 'ArrowLeft';
+const RIGHT_KEY = 'ArrowRight';
+const ESCAPE = 'Escape';
+const ENTER = 'Enter';
+const SPACEBAR = 'Space';
+const SPACEBAR_KEY = ' ';
+const HOME = 'Home';
+const END = 'End';
+const PAGE_UP = 'PageUp';
+const PAGE_DOWN = 'PageDown';
+
+/**
+ * The key that selects all items together with Ctrl/Cmd, per key matching mode.
+ */
+const SELECT_ALL_KEYS: Record<UseKeyboardListNavigationKeyMatch, string> = {
+  code: 'KeyA',
+  key: 'a',
+};
+
+const PREVENTABLE_ACTIONS: UseKeyboardListNavigationAction[] = [
+  'next',
+  'prev',
+  'select',
+  'open',
+  'nextGroup',
+  'prevGroup',
+];
+
+/**
+ * The order in which the actions are matched against the pressed key.
+ * `select` and `open` share the same keys by default,
+ * so the one that makes sense for the current state goes first.
+ * The group jumps go before `next` and `prev`, whose keys they extend with modifiers.
+ */
+const OPENED_ACTIONS_ORDER: UseKeyboardListNavigationAction[] = [
+  'close',
+  'nextGroup',
+  'prevGroup',
+  'next',
+  'prev',
+  'first',
+  'last',
+  'select',
+  'open',
+];
+
+const CLOSED_ACTIONS_ORDER: UseKeyboardListNavigationAction[] = [
+  'open',
+  'close',
+  'nextGroup',
+  'prevGroup',
+  'next',
+  'prev',
+  'first',
+  'last',
+  'select',
+];
+
+const MODIFIER_KEYS = ['shiftKey', 'ctrlKey', 'altKey', 'metaKey'] as const;
+
+/**
+ * Input types that do not accept text, so Space keeps its default meaning.
+ */
+const NON_TEXT_INPUT_TYPES = ['button', 'checkbox', 'radio', 'submit', 'reset'];
+
+const ARROW_KEYS = [UP_KEY, DOWN_KEY, LEFT_KEY, RIGHT_KEY];
+
+interface OrientationKeys {
   /**
-   * Callback triggered when an item is selected, with the selected index as an argument.
+   * Keys that move to the previous item.
    */
-  onSelect: (index: number) => void;
+  prev: string[];
   /**
-   * Callback triggered when toggling the navigation context.
+   * Keys that move to the next item.
    */
-  onToggle: (isOpened: boolean) => void;
+  next: string[];
+}
+
+/**
+ * An item registered with `registerItem`.
+ */
+interface RegisteredItem<T> {
   /**
-   * Callback triggered when hoveredIndex changes.
+   * The element of the item.
    */
-  onHoveredIndexChange?: (index: number) => void;
+  element: HTMLElement;
   /**
-   * The index of the initially hovered item.
+   * The value passed to `onSelect`.
    */
-  hoveredIndex?: number;
+  value: T | undefined;
   /**
-   * The ref to the navigation context.
+   * Whether the item is disabled.
    */
-  listRef: MutableRefObject<HTMLUListElement | null> | null;
+  disabled: boolean;
 }
 
-interface UseKeyboardListNavigationResult {
+/**
+ * The pointer position in the viewport.
+ */
+interface PointerPosition {
   /**
-   * The index of the currently hovered item.
+   * The horizontal coordinate.
    */
-  currentHoveredIndex: number;
+  x: number;
   /**
-   * Function to change the hoveredIndex programmatically.
+   * The vertical coordinate.
    */
-  updateHoveredIndex: (index: number) => void;
+  y: number;
+}
+
+interface SubmenuKeys {
   /**
-   * Function to change the hoveredIndex programmatically.
+   * Key that opens the submenu of the hovered item.
    */
-  updateListPosition: (index: number) => void;
+  open: string | null;
   /**
-   * Keyboard event handler for the navigation context.
+   * Key that closes the current submenu.
    */
-  onKeyDown: KeyboardEventHandler<HTMLElement>;
+  close: string | null;
 }
 
-const UP_KEY = 'ArrowUp';
-const DOWN_KEY = 'ArrowDown';
-const ESCAPE = 'Escape';
-const ENTER = 'Enter';
-const SPACEBAR = 'Space';
+/**
+ * Keys that move to the previous and the next item for each orientation.
+ */
+const ORIENTATION_KEYS: Record<
+  UseKeyboardListNavigationOrientation,
+  OrientationKeys
+> = {
+  vertical: { prev: [UP_KEY], next: [DOWN_KEY] },
+  horizontal: { prev: [LEFT_KEY], next: [RIGHT_KEY] },
+  both: { prev: [UP_KEY, LEFT_KEY], next: [DOWN_KEY, RIGHT_KEY] },
+};
+
+/**
+ * Keys that open and close a submenu for each orientation.
+ * Submenus cannot be opened with arrows when all of them move between items.
+ */
+const SUBMENU_KEYS: Record<UseKeyboardListNavigationOrientation, SubmenuKeys> =
+  {
+    vertical: { open: RIGHT_KEY, close: LEFT_KEY },
+    horizontal: { open: DOWN_KEY, close: UP_KEY },
+    both: { open: null, close: null },
+  };
+
+/**
+ * Counter used to generate unique ids for the prop getters.
+ */
+let idCounter = 0;
+
+const EMPTY_SELECTION: number[] = [];
+
+const DEFAULT_GRID_WRAP: Required<UseKeyboardListNavigationGridWrap> = {
+  horizontal: true,
+  vertical: true,
+};
+
+const DEFAULT_TYPEAHEAD_TIMEOUT = 500;
+
+/**
+ * Number of items to move by on PageUp/PageDown
+ * when the page size cannot be measured from the layout.
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Number of items before the end of the list at which more items are loaded.
+ */
+const DEFAULT_LOAD_MORE_THRESHOLD = 3;
+
+/**
+ * Converts the physical key code into the logical one
+ * by swapping ArrowLeft and ArrowRight for the right-to-left direction.
+ * @param {string} code - The code of the pressed key.
+ * @param {string} direction - The text direction of the list.
+ * @returns {string} The logical key code.
+ */
+const getLogicalKeyCode = (
+  code: string,
+  direction: UseKeyboardListNavigationDirection
+): string => {
+  if (direction !== 'rtl') {
+    return code;
+  }
+
+  if (code === LEFT_KEY) {
+    return RIGHT_KEY;
+  }
+
+  if (code === RIGHT_KEY) {
+    return LEFT_KEY;
+  }
+
+  return code;
+};
+
+/**
+ * Returns the default key bindings, which depend on the orientation
+ * and the direction of the list.
+ * @param {string} orientation - The orientation of the list.
+ * @param {string} direction - The text direction of the list.
+ * @param {string} keyMatch - Whether the bindings are matched against `key` or `code`.
+ * @returns {object} The key bindings for every action.
+ */
+const getDefaultKeyBindings = (
+  orientation: UseKeyboardListNavigationOrientation,
+  direction: UseKeyboardListNavigationDirection,
+  keyMatch: UseKeyboardListNavigationKeyMatch
+): Required<UseKeyboardListNavigationKeyBindings> => {
+  const { prev, next } = ORIENTATION_KEYS[orientation];
+  const space = keyMatch === 'key' ? SPACEBAR_KEY : SPACEBAR;
+
+  return {
+    next: next.map((key) => getLogicalKeyCode(key, direction)),
+    prev: prev.map((key) => getLogicalKeyCode(key, direction)),
+    select: [ENTER, space],
+    open: [ENTER, space],
+    close: [ESCAPE],
+    first: [HOME],
+    last: [END],
+    nextGroup: next.map((key) => ({
+      key: getLogicalKeyCode(key, direction),
+      ctrlKey: true,
+    })),
+    prevGroup: prev.map((key) => ({
+      key: getLogicalKeyCode(key, direction),
+      ctrlKey: true,
+    })),
+  };
+};
+
+/**
+ * Checks whether the keyboard event matches the key binding.
+ * Modifiers that are not specified in the binding are not checked.
+ * @param {KeyboardEvent} e - The keyboard event.
+ * @param {UseKeyboardListNavigationKeyBinding} binding - The key binding.
+ * @param {string} keyMatch - Whether the binding is matched against `key` or `code`.
+ * @returns {boolean} True if the event matches the binding.
+ */
+const matchesKeyBinding = (
+  e: KeyboardEvent,
+  binding: UseKeyboardListNavigationKeyBinding,
+  keyMatch: UseKeyboardListNavigationKeyMatch
+): boolean => {
+  const keyBinding = typeof binding === 'string' ? { key: binding } : binding;
+  const eventKey = keyMatch === 'key' ? e.key : e.code;
+
+  if (eventKey !== keyBinding.key) {
+    return false;
+  }
+
+  return MODIFIER_KEYS.every(
+    (modifier) =>
+      keyBinding[modifier] === undefined ||
+      keyBinding[modifier] === Boolean(e[modifier])
+  );
+};
+
+/**
+ * Returns the action bound to the pressed key.
+ * @param {KeyboardEvent} e - The keyboard event.
+ * @param {object} keyBindings - The key bindings for every action.
+ * @param {string} keyMatch - Whether the bindings are matched against `key` or `code`.
+ * @param {boolean} isOpened - Whether the list is opened.
+ * @returns {string | null} The action or null if the key is not bound.
+ */
+const getKeyAction = (
+  e: KeyboardEvent,
+  keyBindings: Required<UseKeyboardListNavigationKeyBindings>,
+  keyMatch: UseKeyboardListNavigationKeyMatch,
+  isOpened: boolean
+): UseKeyboardListNavigationAction | null => {
+  const actionsOrder = isOpened ? OPENED_ACTIONS_ORDER : CLOSED_ACTIONS_ORDER;
+
+  const action = actionsOrder.find((actionName) =>
+    keyBindings[actionName].some((binding) =>
+      matchesKeyBinding(e, binding, keyMatch)
+    )
+  );
+
+  return action || null;
+};
+
+/**
+ * Checks whether the keyboard event is a Space press.
+ * @param {KeyboardEvent} e - The keyboard event.
+ * @returns {boolean} True if Space is pressed.
+ */
+const isSpaceKey = (e: KeyboardEvent): boolean => {
+  return e.code === SPACEBAR || e.key === SPACEBAR_KEY;
+};
+
+/**
+ * Checks whether the element accepts text input.
+ * @param {EventTarget | null} target - The target of the keyboard event.
+ * @returns {boolean} True if the element is a text field or is content editable.
+ */
+const isTextInput = (target: EventTarget | null | undefined): boolean => {
+  if (target instanceof HTMLInputElement) {
+    return !NON_TEXT_INPUT_TYPES.includes(target.type);
+  }
+
+  if (target instanceof HTMLTextAreaElement) {
+    return true;
+  }
 
-const PREVENTABLE_KEYS = [UP_KEY, DOWN_KEY, ENTER, SPACEBAR];
+  return target instanceof HTMLElement && target.isContentEditable;
+};
+
+/**
+ * Calculates the scroll position of the list along one axis
+ * that brings the item into view with the given alignment.
+ * @param {number} scrollPosition - The current scroll position of the list.
+ * @param {number} itemOffset - The offset of the item from the start of the visible area.
+ * @param {number} itemSize - The size of the item.
+ * @param {number} listSize - The size of the visible area of the list.
+ * @param {string} alignment - The scroll alignment.
+ * @param {number} paddingStart - The space reserved at the start of the visible area.
+ * @param {number} paddingEnd - The space reserved at the end of the visible area.
+ * @returns {number | null} The new scroll position or null if the list should not be scrolled.
+ */
+const getScrollPosition = (
+  scrollPosition: number,
+  itemOffset: number,
+  itemSize: number,
+  listSize: number,
+  alignment: UseKeyboardListNavigationScrollAlignment,
+  paddingStart: number,
+  paddingEnd: number
+): number | null => {
+  const startPosition = scrollPosition + itemOffset - paddingStart;
+  const endPosition =
+    scrollPosition + itemOffset + itemSize - listSize + paddingEnd;
+
+  switch (alignment) {
+    case 'start':
+      return startPosition;
+
+    case 'end':
+      return endPosition;
+
+    case 'center':
+      return (
+        scrollPosition +
+        itemOffset +
+        itemSize / 2 -
+        (paddingStart + listSize - paddingEnd) / 2
+      );
+
+    case 'nearest':
+      if (itemOffset < paddingStart) {
+        return startPosition;
+      }
+
+      if (itemOffset + itemSize > listSize - paddingEnd) {
+        return endPosition;
+      }
+
+      return null;
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Returns the list item element at the given index.
+ * The `li` elements are looked up among all descendants, so the list element
+ * can be a scroll container wrapping the `ul`; other items must be its children.
+ * @param {HTMLElement} listElement - The list element.
+ * @param {number} index - The index of the item.
+ * @returns {HTMLElement | null} The item element or null if it is not rendered.
+ */
+const getListItem = (
+  listElement: HTMLElement,
+  index: number
+): HTMLElement | null =>
+  listElement.querySelector<HTMLElement>(`li:nth-child(${index + 1})`) ||
+  (listElement.children.item(index) as HTMLElement | null);
+
+/**
+ * Derives the number of grid columns from the layout
+ * by counting the items rendered in the first row.
+ * @param {HTMLElement} listElement - The list element.
+ * @returns {number} The number of columns, at least 1.
+ */
+const getLayoutColumns = (listElement: HTMLElement): number => {
+  const items = Array.from(listElement.children) as HTMLElement[];
+
+  if (items.length === 0) {
+    return 1;
+  }
+
+  const firstRowTop = items[0].offsetTop;
+  const firstRowLength = items.findIndex(
+    (item) => item.offsetTop !== firstRowTop
+  );
+
+  return firstRowLength === -1 ? items.length : Math.max(firstRowLength, 1);
+};
+
+/**
+ * Calculates how many items fit into the visible area of the list.
+ * @param {HTMLElement} listElement - The list element.
+ * @param {HTMLElement | null} listItem - The item used to measure the item size.
+ * @param {boolean} isHorizontal - Whether the items are measured along the horizontal axis.
+ * @returns {number} The number of items in one page.
+ */
+const getPageSize = (
+  listElement: HTMLElement,
+  listItem: HTMLElement | null,
+  isHorizontal: boolean
+): number => {
+  const listSize = isHorizontal
+    ? listElement.clientWidth
+    : listElement.clientHeight;
+  const itemSize = listItem
+    ? isHorizontal
+      ? listItem.offsetWidth
+      : listItem.offsetHeight
+    : 0;
+
+  if (!listSize || !itemSize) {
+    return DEFAULT_PAGE_SIZE;
+  }
+
+  return Math.max(1, Math.floor(listSize / itemSize));
+};
+
+/**
+ * Checks whether the keyboard event produces a printable character
+ * that should be handled by the typeahead search.
+ * @param {KeyboardEvent} e - The keyboard event.
+ * @returns {boolean} True if the key is a printable character without modifiers.
+ */
+const isPrintableKey = (e: KeyboardEvent): boolean => {
+  return (
+    typeof e.key === 'string' &&
+    e.key.length === 1 &&
+    !e.ctrlKey &&
+    !e.metaKey &&
+    !e.altKey
+  );
+};
+
+/**
+ * The default for the index predicates: no item is disabled or has a submenu.
+ * @returns {boolean} Always false.
+ */
+const returnFalse = (): boolean => false;
+
+/**
+ * The default state reducer, which applies the changes as they are.
+ * @param {UseKeyboardListNavigationState} _state - The current state.
+ * @param {UseKeyboardListNavigationStateChange} stateChange - The state transition.
+ * @returns {UseKeyboardListNavigationState} The state to apply.
+ */
+const defaultStateReducer = (
+  _state: UseKeyboardListNavigationState,
+  stateChange: UseKeyboardListNavigationStateChange
+): UseKeyboardListNavigationState => stateChange.changes;
+
+/**
+ * Sorts the registered items in the order of their elements in the document.
+ * @param {RegisteredItem[]} items - The registered items.
+ * @returns {RegisteredItem[]} The sorted items.
+ */
+const sortByDocumentPosition = <T>(
+  items: RegisteredItem<T>[]
+): RegisteredItem<T>[] =>
+  [...items].sort((a, b) =>
+    a.element.compareDocumentPosition(b.element) &
+    Node.DOCUMENT_POSITION_FOLLOWING
+      ? -1
+      : 1
+  );
+
+/**
+ * Checks whether the registered items have the same elements
+ * in the same order and the same disabled flags.
+ * The values are not compared, since they may be recreated on every render.
+ * @param {RegisteredItem[]} a - The first list of items.
+ * @param {RegisteredItem[]} b - The second list of items.
+ * @returns {boolean} True if the lists are the same.
+ */
+const isSameRegistration = <T>(
+  a: RegisteredItem<T>[],
+  b: RegisteredItem<T>[]
+): boolean =>
+  a.length === b.length &&
+  a.every(
+    (item, index) =>
+      item.element === b[index].element && item.disabled === b[index].disabled
+  );
+
+/**
+ * Returns the index of the first item of every group.
+ * @param {UseKeyboardListNavigationGroup[]} groups - The groups of the items.
+ * @returns {number[]} The indexes of the first items of the groups.
+ */
+const getGroupStarts = (groups: UseKeyboardListNavigationGroup[]): number[] => {
+  const groupStarts: number[] = [];
+
+  groups.reduce((start, group) => {
+    groupStarts.push(start);
+
+    return start + group.itemsLength;
+  }, 0);
+
+  return groupStarts;
+};
+
+/**
+ * Returns the index of the group that contains the item.
+ * @param {number[]} groupStarts - The indexes of the first items of the groups.
+ * @param {number} index - The index of the item.
+ * @returns {number} The index of the group.
+ */
+const getGroupIndex = (groupStarts: number[], index: number): number => {
+  for (let i = groupStarts.length - 1; i > 0; i--) {
+    if (index >= groupStarts[i]) {
+      return i;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Finds the first enabled item starting from `startIndex`
+ * and moving in the given direction.
+ * @param {number} startIndex - The index to start searching from.
+ * @param {number} step - The search direction, `1` for forward and `-1` for backward.
+ * @param {number} itemsLength - The total number of items.
+ * @param {Function} isItemDisabled - Returns whether the item at the given index is disabled.
+ * @param {boolean} shouldWrap - Whether the search continues from the other end of the list.
+ * @returns {number} The index of the enabled item or -1 if there is none.
+ */
+const findEnabledIndex = (
+  startIndex: number,
+  step: 1 | -1,
+  itemsLength: number,
+  isItemDisabled: (index: number) => boolean,
+  shouldWrap: boolean
+): number => {
+  for (let offset = 0; offset < itemsLength; offset++) {
+    let index = startIndex + offset * step;
+
+    if (shouldWrap) {
+      index = ((index % itemsLength) + itemsLength) % itemsLength;
+    } else if (index < 0 || index >= itemsLength) {
+      return -1;
+    }
+
+    if (!isItemDisabled(index)) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Returns the given index if the item is enabled,
+ * otherwise the index of the first enabled item.
+ * @param {number} index - The preferred index.
+ * @param {number} itemsLength - The total number of items.
+ * @param {Function} isItemDisabled - Returns whether the item at the given index is disabled.
+ * @returns {number} The index of the enabled item or -1 if every item is disabled.
+ */
+const getEnabledHoveredIndex = (
+  index: number,
+  itemsLength: number,
+  isItemDisabled: (index: number) => boolean
+): number => {
+  if (index < 0 || index >= itemsLength || !isItemDisabled(index)) {
+    return index;
+  }
+
+  return findEnabledIndex(0, 1, itemsLength, isItemDisabled, false);
+};
+
+/**
+ * Finds the next enabled item in the same grid row or,
+ * if horizontal wrapping is enabled, in the neighbouring rows.
+ * @param {number} currentIndex - The index of the currently hovered item.
+ * @param {number} step - The direction, `1` for the next item and `-1` for the previous one.
+ * @param {number} columns - The number of columns.
+ * @param {number} itemsLength - The total number of items.
+ * @param {Function} isItemDisabled - Returns whether the item at the given index is disabled.
+ * @param {boolean} shouldWrap - Whether the navigation continues from the neighbouring rows.
+ * @returns {number} The index of the enabled item or -1 if there is none.
+ */
+const findGridHorizontalIndex = (
+  currentIndex: number,
+  step: 1 | -1,
+  columns: number,
+  itemsLength: number,
+  isItemDisabled: (index: number) => boolean,
+  shouldWrap: boolean
+): number => {
+  if (shouldWrap) {
+    return findEnabledIndex(
+      currentIndex + step,
+      step,
+      itemsLength,
+      isItemDisabled,
+      true
+    );
+  }
+
+  const rowStart = currentIndex - (currentIndex % columns);
+  const rowEnd = Math.min(rowStart + columns, itemsLength) - 1;
+
+  for (
+    let index = currentIndex + step;
+    index >= rowStart && index <= rowEnd;
+    index += step
+  ) {
+    if (!isItemDisabled(index)) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Finds the next enabled item in the same grid column.
+ *
+ * Moving down into a column missing from the ragged last row
+ * lands on the last item, moving up into it skips the last row.
+ * @param {number} currentIndex - The index of the currently hovered item.
+ * @param {number} step - The direction, `1` for the row below and `-1` for the row above.
+ * @param {number} columns - The number of columns.
+ * @param {number} itemsLength - The total number of items.
+ * @param {Function} isItemDisabled - Returns whether the item at the given index is disabled.
+ * @param {boolean} shouldWrap - Whether the navigation continues from the other end of the column.
+ * @returns {number} The index of the enabled item or -1 if there is none.
+ */
+const findGridVerticalIndex = (
+  currentIndex: number,
+  step: 1 | -1,
+  columns: number,
+  itemsLength: number,
+  isItemDisabled: (index: number) => boolean,
+  shouldWrap: boolean
+): number => {
+  const rowsCount = Math.ceil(itemsLength / columns);
+  const column = currentIndex % columns;
+  let row = Math.floor(currentIndex / columns);
+
+  for (let i = 0; i < rowsCount; i++) {
+    row += step;
+
+    if (row < 0 || row >= rowsCount) {
+      if (!shouldWrap) {
+        return -1;
+      }
 
-export const useKeyboardListNavigation = (
-  options: UseKeyboardListNavigationOptions
-): UseKeyboardListNavigationResult => {
+      row = (row + rowsCount) % rowsCount;
+    }
+
+    let index = row * columns + column;
+
+    if (index >= itemsLength) {
+      if (step === -1) {
+        continue;
+      }
+
+      index = itemsLength - 1;
+    }
+
+    if (index === currentIndex) {
+      return -1;
+    }
+
+    if (!isItemDisabled(index)) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Finds the first enabled item whose label starts with the search string.
+ * The search starts from `startIndex` and wraps around the end of the list.
+ * @param {string} search - The string to search for.
+ * @param {number} startIndex - The index to start searching from.
+ * @param {number} itemsLength - The total number of items.
+ * @param {Function} getItemLabel - Returns the label of the item at the given index.
+ * @param {Function} isItemDisabled - Returns whether the item at the given index is disabled.
+ * @returns {number} The index of the matching item or -1 if nothing matches.
+ */
+const findTypeaheadMatch = (
+  search: string,
+  startIndex: number,
+  itemsLength: number,
+  getItemLabel: (index: number) => string,
+  isItemDisabled: (index: number) => boolean
+): number => {
+  const normalizedSearch = search.toLowerCase();
+
+  for (let offset = 0; offset < itemsLength; offset++) {
+    const index = (startIndex + offset) % itemsLength;
+
+    if (
+      !isItemDisabled(index) &&
+      getItemLabel(index).toLowerCase().startsWith(normalizedSearch)
+    ) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+export const useKeyboardListNavigation = <T = unknown>(
+  options: UseKeyboardListNavigationOptions<T>
+): UseKeyboardListNavigationResult<T> => {
   const {
-    itemsLength,
+    itemsLength: itemsLengthOption,
     onSelect,
-    onToggle,
+    onToggle = () => undefined,
     onHoveredIndexChange = () => undefined,
-    isOpened = false,
+    isOpened: isOpenedOption = false,
     hoveredIndex = 0,
     listRef,
+    getItemLabel,
+    typeaheadTimeout = DEFAULT_TYPEAHEAD_TIMEOUT,
+    isItemDisabled: isItemDisabledOption = returnFalse,
+    columns,
+    gridWrap,
+    hasSubmenu = returnFalse,
+    parent,
+    parentIndex,
+    orientation = 'vertical',
+    direction = 'ltr',
+    id,
+    isMultiSelect = false,
+    selectedIndexes = EMPTY_SELECTION,
+    onSelectionChange = () => undefined,
+    scrollToIndex,
+    getItemElement,
+    keyBindings,
+    keyMatch = 'code',
+    loop = true,
+    onBoundaryReached = () => undefined,
+    scrollAlignment = 'center',
+    scrollBehavior = 'auto',
+    scrollPadding = 0,
+    focusStrategy = 'virtual',
+    groups,
+    stateReducer = defaultStateReducer,
+    onLoadMore = () => undefined,
+    isLoading = false,
+    hasMore = false,
+    loadMoreThreshold = DEFAULT_LOAD_MORE_THRESHOLD,
   } = options;
 
-  const [currentHoveredIndex, setCurrentHoveredIndex] = useState(hoveredIndex);
+  const { start: paddingStart = 0, end: paddingEnd = 0 } =
+    typeof scrollPadding === 'number'
+      ? { start: scrollPadding, end: scrollPadding }
+      : scrollPadding;
+
+  const keyBindingsByAction = {
+    ...getDefaultKeyBindings(orientation, direction, keyMatch),
+    ...keyBindings,
+    /**
+     * Without groups, Ctrl + arrow keys move by one item.
+     */
+    ...(groups ? {} : { nextGroup: [], prevGroup: [] }),
+  };
+
+  const generatedId = useConst(
+    () => `kommo-list-navigation-${(idCounter += 1)}`
+  );
+  const baseId = id || generatedId;
+  const listId = `${baseId}-list`;
+
+  /**
+   * Returns the stable id of the item element at the given index.
+   * @param {number} index - The index of the item.
+   * @returns {string} The item id.
+   */
+  const getItemId = (index: number): string => `${baseId}-item-${index}`;
+
+  /**
+   * Returns the stable id of the header of the group at the given index.
+   * @param {number} groupIndex - The index of the group.
+   * @returns {string} The group header id.
+   */
+  const getGroupLabelId = (groupIndex: number): string =>
+    `${baseId}-group-${groupIndex}-label`;
+
+  /**
+   * The items registered with `registerItem` by their elements.
+   */
+  const registrationsRef = useRef(new Map<HTMLElement, RegisteredItem<T>>());
+
+  /**
+   * The registered items in the document order with the latest values.
+   */
+  const registeredItemsRef = useRef<RegisteredItem<T>[]>([]);
+
+  const [registeredItems, setRegisteredItems] = useState<RegisteredItem<T>[]>(
+    []
+  );
+
+  const isRegistrationMode = itemsLengthOption === undefined;
+  const itemsLength = isRegistrationMode
+    ? registeredItems.length
+    : itemsLengthOption;
+
+  const isItemDisabled = isRegistrationMode
+    ? (index: number) =>
+        isItemDisabledOption(index) ||
+        (!!registeredItems[index] && registeredItems[index].disabled)
+    : isItemDisabledOption;
+
+  const isSubmenu = parent !== undefined && parentIndex !== undefined;
+  const isOpened = isSubmenu
+    ? parent.openedSubmenuIndex === parentIndex
+    : isOpenedOption;
+
+  const isGrid = columns !== undefined;
+  const { horizontal: shouldWrapHorizontally, vertical: shouldWrapVertically } =
+    { ...DEFAULT_GRID_WRAP, ...gridWrap };
+
+  const [currentHoveredIndex, setCurrentHoveredIndex] = useState(() =>
+    getEnabledHoveredIndex(hoveredIndex, itemsLength, isItemDisabled)
+  );
+
+  const [openedSubmenuIndex, setOpenedSubmenuIndex] = useState(-1);
+
+  const [currentSelectedIndexes, setCurrentSelectedIndexes] =
+    useState(selectedIndexes);
+
+  /**
+   * The item from which Shift+Arrow extends the selected range.
+   */
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  const submenusRef = useRef(new Map<number, (e: KeyboardEvent) => void>());
+
+  const typeaheadBufferRef = useRef('');
+  const typeaheadTimeoutRef = useRef<number | null>(null);
+
+  /**
+   * Whether the DOM focus is on one of the items.
+   */
+  const isFocusWithinRef = useRef(false);
+
+  /**
+   * Whether the hovered item was last moved with the keyboard.
+   * While it is, `mouseenter` caused by the list scrolling under a still pointer
+   * does not change the hovered item.
+   */
+  const isKeyboardNavigationRef = useRef(false);
+
+  /**
+   * The last known pointer position, used to tell real pointer movement
+   * from the events fired when the content scrolls under the pointer.
+   */
+  const pointerPositionRef = useRef<PointerPosition | null>(null);
+
+  useDeepCompareEffect(() => {
+    setCurrentSelectedIndexes(selectedIndexes);
+  }, [selectedIndexes]);
 
   useEffect(() => {
-    setCurrentHoveredIndex(hoveredIndex);
+    setCurrentHoveredIndex(
+      getEnabledHoveredIndex(hoveredIndex, itemsLength, isItemDisabled)
+    );
   }, [hoveredIndex]);
 
+  /**
+   * The registered items are not known on the first render,
+   * so the hovered index is moved off a disabled item once they are.
+   */
+  useEffect(() => {
+    if (!isRegistrationMode) {
+      return;
+    }
+
+    setCurrentHoveredIndex((index) =>
+      getEnabledHoveredIndex(index, itemsLength, isItemDisabled)
+    );
+  }, [registeredItems]);
+
+  const previousItemsLength = usePrevious(itemsLength);
+
+  /**
+   * Appended items keep the hovered index, but when the list shrinks,
+   * e.g. after a new search query, it is moved to the last enabled item,
+   * or to -1 if the list is empty. When the list is filled again,
+   * the first enabled item is hovered.
+   */
+  useDidUpdateEffect(() => {
+    if (previousItemsLength === 0) {
+      const index = getEnabledHoveredIndex(
+        currentHoveredIndex >= 0 && currentHoveredIndex < itemsLength
+          ? currentHoveredIndex
+          : 0,
+        itemsLength,
+        isItemDisabled
+      );
+
+      if (index !== currentHoveredIndex) {
+        updateHoveredIndex(index);
+      }
+
+      return;
+    }
+
+    if (currentHoveredIndex < itemsLength) {
+      return;
+    }
+
+    const index = findEnabledIndex(
+      itemsLength - 1,
+      -1,
+      itemsLength,
+      isItemDisabled,
+      false
+    );
+
+    if (index !== currentHoveredIndex) {
+      updateHoveredIndex(index);
+    }
+  }, [itemsLength]);
+
   const updateHoveredIndex = (index: number) => {
     setCurrentHoveredIndex(index);
 
     onHoveredIndexChange(index);
   };
 
-  const updateListPosition = useCallback((newIndex: number) => {
+  /**
+   * Returns the element of the item at the given index
+   * using `getItemElement` if provided.
+   * @param {number} index - The index of the item.
+   * @returns {HTMLElement | null} The item element or null if it is not rendered.
+   */
+  const resolveItemElement = (index: number): HTMLElement | null => {
+    if (getItemElement) {
+      return getItemElement(index);
+    }
+
+    if (isRegistrationMode) {
+      const registeredItem = registeredItemsRef.current[index];
+
+      return registeredItem ? registeredItem.element : null;
+    }
+
     if (!listRef || !listRef.current) {
+      return null;
+    }
+
+    /**
+     * The headers and the group elements break the mapping between
+     * the item indexes and the list children, so the items are found by id.
+     */
+    return groups
+      ? listRef.current.querySelector<HTMLElement>(`[id="${getItemId(index)}"]`)
+      : getListItem(listRef.current, index);
+  };
+
+  const updateListPosition = (newIndex: number) => {
+    /**
+     * Indexes outside the list, e.g. -1 when no item is hovered,
+     * have no item to scroll to.
+     */
+    if (newIndex < 0 || newIndex >= itemsLength) {
       return;
     }
 
-    const listElement = listRef.current;
-    const listItem = listElement.querySelector<HTMLElement>(
-      `li:nth-child(${newIndex + 1})`
-    );
+    if (scrollToIndex) {
+      scrollToIndex(newIndex);
+      updateHoveredIndex(newIndex);
+
+      return;
+    }
+
+    const listElement = listRef ? listRef.current : null;
+    const listItem = listElement ? resolveItemElement(newIndex) : null;
+
+    /**
+     * The hovered item still changes when there is nothing to scroll to.
+     */
+    if (!listElement || !listItem) {
+      updateHoveredIndex(newIndex);
 
-    if (!listItem) {
       return;
     }
 
-    const listTop = listElement.getBoundingClientRect().top;
-    const itemTop = listItem.getBoundingClientRect().top;
+    const listRect = listElement.getBoundingClientRect();
+    const itemRect = listItem.getBoundingClientRect();
 
     const newScrollTop =
-      listElement.scrollTop +
-      (itemTop - listTop) -
-      listElement.offsetHeight / 2 +
-      listItem.offsetHeight / 2;
+      isGrid || orientation !== 'horizontal'
+        ? getScrollPosition(
+            listElement.scrollTop,
+            itemRect.top - listRect.top,
+            listItem.offsetHeight,
+            listElement.offsetHeight,
+            scrollAlignment,
+            paddingStart,
+            paddingEnd
+          )
+        : null;
+
+    const newScrollLeft =
+      !isGrid && orientation !== 'vertical'
+        ? getScrollPosition(
+            listElement.scrollLeft,
+            itemRect.left - listRect.left,
+            listItem.offsetWidth,
+            listElement.offsetWidth,
+            scrollAlignment,
+            paddingStart,
+            paddingEnd
+          )
+        : null;
+
+    if (
+      scrollBehavior === 'smooth' &&
+      typeof listElement.scrollTo === 'function' &&
+      (newScrollTop !== null || newScrollLeft !== null)
+    ) {
+      listElement.scrollTo({
+        top: newScrollTop === null ? undefined : newScrollTop,
+        left: newScrollLeft === null ? undefined : newScrollLeft,
+        behavior: 'smooth',
+      });
+    } else {
+      if (newScrollTop !== null) {
+        listElement.scrollTop = newScrollTop;
+      }
 
-    listElement.scrollTop = newScrollTop;
+      if (newScrollLeft !== null) {
+        listElement.scrollLeft = newScrollLeft;
+      }
+    }
 
     updateHoveredIndex(newIndex);
-  }, []);
+  };
+
+  /**
+   * Moves the hovered index to the first enabled item
+   * starting from `startIndex` in the given direction.
+   * Does nothing if there is no enabled item to move to.
+   * @param {number} startIndex - The index to start searching from.
+   * @param {number} step - The search direction.
+   * @param {boolean} shouldWrap - Whether the search continues from the other end of the list.
+   * @returns {number} The new hovered index or -1 if it has not changed.
+   */
+  const getEnabledIndex = (
+    startIndex: number,
+    step: 1 | -1,
+    shouldWrap: boolean
+  ): number =>
+    findEnabledIndex(startIndex, step, itemsLength, isItemDisabled, shouldWrap);
+
+  /**
+   * Calls `onSelect` with the value of the item when it is registered.
+   * @param {number} index - The index of the item.
+   */
+  const selectItem = (index: number) => {
+    if (!isRegistrationMode) {
+      onSelect(index);
+
+      return;
+    }
+
+    const registeredItem = registeredItemsRef.current[index];
+
+    onSelect(index, registeredItem ? registeredItem.value : undefined);
+  };
+
+  const getItemIndex = (value: T): number =>
+    registeredItemsRef.current.findIndex((item) => item.value === value);
+
+  const registerItem = (
+    registration: UseKeyboardListNavigationItemRegistration<T> = {}
+  ): RefCallback<HTMLElement> => {
+    let registeredElement: HTMLElement | null = null;
+
+    return (element) => {
+      if (registeredElement) {
+        registrationsRef.current.delete(registeredElement);
+        registeredElement = null;
+      }
+
+      if (element) {
+        registrationsRef.current.set(element, {
+          element,
+          value: registration.value,
+          disabled: !!registration.disabled,
+        });
+        registeredElement = element;
+      }
+    };
+  };
+
+  /**
+   * Finds the first enabled item of the next or the previous group.
+   * Groups without enabled items are skipped.
+   * @param {number} step - `1` to move to the next group and `-1` to the previous one.
+   * @returns {number} The index of the item or -1 if there is no such group.
+   */
+  const getGroupTargetIndex = (step: 1 | -1): number => {
+    if (!groups || groups.length === 0) {
+      return -1;
+    }
+
+    const groupStarts = getGroupStarts(groups);
+    const groupIndex = getGroupIndex(groupStarts, currentHoveredIndex);
+
+    for (let offset = 1; offset <= groups.length; offset++) {
+      let targetGroupIndex = groupIndex + step * offset;
+
+      if (targetGroupIndex < 0 || targetGroupIndex >= groups.length) {
+        if (!loop) {
+          onBoundaryReached(step === -1 ? 'start' : 'end');
+
+          return -1;
+        }
+
+        targetGroupIndex = (targetGroupIndex + groups.length) % groups.length;
+      }
+
+      const start = groupStarts[targetGroupIndex];
+      const end = start + groups[targetGroupIndex].itemsLength;
+
+      for (let index = start; index < end; index++) {
+        if (!isItemDisabled(index)) {
+          return index;
+        }
+      }
+    }
+
+    return -1;
+  };
+
+  const updateSelectedIndexes = (indexes: number[]) => {
+    const sortedIndexes = [...indexes].sort((a, b) => a - b);
+
+    setCurrentSelectedIndexes(sortedIndexes);
+
+    onSelectionChange(sortedIndexes);
+  };
+
+  /**
+   * Returns the selection with the item added or removed,
+   * and makes the item the anchor of the next range selection.
+   * @param {number} index - The index of the item.
+   * @returns {number[]} The new selected indexes.
+   */
+  const getToggledSelection = (index: number): number[] => {
+    selectionAnchorRef.current = index;
+
+    return currentSelectedIndexes.includes(index)
+      ? reject(currentSelectedIndexes, index)
+      : [...currentSelectedIndexes, index];
+  };
+
+  /**
+   * Returns the enabled items between the anchor and the given index.
+   * The hovered item becomes the anchor if there is none yet.
+   * @param {number} index - The index of the newly hovered item.
+   * @returns {number[]} The new selected indexes.
+   */
+  const getRangeSelection = (index: number): number[] => {
+    if (selectionAnchorRef.current === null) {
+      selectionAnchorRef.current = Math.max(currentHoveredIndex, 0);
+    }
+
+    const start = Math.min(selectionAnchorRef.current, index);
+    const end = Math.max(selectionAnchorRef.current, index);
+    const range: number[] = [];
+
+    for (let i = start; i <= end; i++) {
+      if (!isItemDisabled(i)) {
+        range.push(i);
+      }
+    }
+
+    return range;
+  };
+
+  /**
+   * Returns the indexes of all enabled items.
+   * @returns {number[]} The new selected indexes.
+   */
+  const getAllSelection = (): number[] => {
+    const indexes: number[] = [];
+
+    for (let i = 0; i < itemsLength; i++) {
+      if (!isItemDisabled(i)) {
+        indexes.push(i);
+      }
+    }
+
+    return indexes;
+  };
+
+  /**
+   * Runs the state transition through `stateReducer` and applies the result.
+   * @param {string} type - The type of the transition.
+   * @param {object} changes - The state changes the hook makes by default.
+   * @param {boolean} shouldScroll - Whether the hovered item is scrolled into view.
+   * @returns {UseKeyboardListNavigationState | null} The applied state or null if the transition is cancelled.
+   */
+  const dispatch = (
+    type: UseKeyboardListNavigationStateChangeType,
+    changes: Partial<UseKeyboardListNavigationState>,
+    shouldScroll = true
+  ): UseKeyboardListNavigationState | null => {
+    const state: UseKeyboardListNavigationState = {
+      hoveredIndex: currentHoveredIndex,
+      isOpened,
+      selectedIndexes: currentSelectedIndexes,
+      openedSubmenuIndex,
+    };
+
+    const newState = stateReducer(state, {
+      type,
+      changes: { ...state, ...changes },
+    });
+
+    if (newState === state) {
+      return null;
+    }
+
+    if (
+      newState.hoveredIndex !== -1 &&
+      (newState.hoveredIndex !== state.hoveredIndex ||
+        changes.hoveredIndex !== undefined)
+    ) {
+      if (shouldScroll) {
+        updateListPosition(newState.hoveredIndex);
+      } else {
+        updateHoveredIndex(newState.hoveredIndex);
+      }
+    }
+
+    if (!isEqual(newState.selectedIndexes, state.selectedIndexes)) {
+      if (newState.selectedIndexes.length === 0) {
+        selectionAnchorRef.current = null;
+      }
+
+      updateSelectedIndexes(newState.selectedIndexes);
+    }
+
+    if (newState.openedSubmenuIndex !== state.openedSubmenuIndex) {
+      setOpenedSubmenuIndex(newState.openedSubmenuIndex);
+    }
+
+    if (newState.isOpened !== state.isOpened) {
+      if (!isSubmenu) {
+        onToggle(newState.isOpened);
+      } else if (!newState.isOpened) {
+        parent.closeSubmenu();
+      }
+    }
+
+    return newState;
+  };
+
+  /**
+   * Selects the item unless `stateReducer` cancels the transition.
+   * @param {number} index - The index of the item.
+   */
+  const select = (index: number) => {
+    const newState = dispatch(
+      'Select',
+      index === currentHoveredIndex ? {} : { hoveredIndex: index },
+      false
+    );
+
+    if (newState) {
+      selectItem(newState.hoveredIndex);
+    }
+  };
+
+  /**
+   * Hovers the item moved to with the keyboard.
+   * With Shift in the multi-select mode also selects the range up to it.
+   * @param {string} type - The type of the transition.
+   * @param {number} index - The index of the item or -1 if there is none.
+   * @param {KeyboardEvent} e - The keyboard event.
+   */
+  const navigate = (
+    type: UseKeyboardListNavigationStateChangeType,
+    index: number,
+    e: KeyboardEvent
+  ) => {
+    if (
+      hasMore &&
+      !isLoading &&
+      (index === -1 ? currentHoveredIndex : index) >=
+        itemsLength - loadMoreThreshold
+    ) {
+      onLoadMore();
+    }
+
+    if (index === -1) {
+      return;
+    }
+
+    dispatch(
+      type,
+      isMultiSelect && e.shiftKey
+        ? { hoveredIndex: index, selectedIndexes: getRangeSelection(index) }
+        : { hoveredIndex: index }
+    );
+  };
+
+  const openSubmenu = (index: number) => {
+    dispatch('OpenSubmenu', { openedSubmenuIndex: index }, false);
+  };
+
+  const closeSubmenu = () => {
+    if (openedSubmenuIndex === -1) {
+      return;
+    }
+
+    dispatch(
+      'CloseSubmenu',
+      { openedSubmenuIndex: -1, hoveredIndex: openedSubmenuIndex },
+      false
+    );
+  };
+
+  const registerSubmenu = useCallback(
+    (index: number, onKeyDown: (e: KeyboardEvent) => void) => {
+      submenusRef.current.set(index, onKeyDown);
+
+      return () => {
+        if (submenusRef.current.get(index) === onKeyDown) {
+          submenusRef.current.delete(index);
+        }
+      };
+    },
+    []
+  );
+
+  /**
+   * Checks whether the hovered item opens a submenu.
+   * @returns {boolean} True if the hovered item is enabled and has a submenu.
+   */
+  const canOpenSubmenu = (): boolean => {
+    return (
+      currentHoveredIndex >= 0 &&
+      currentHoveredIndex < itemsLength &&
+      !isItemDisabled(currentHoveredIndex) &&
+      hasSubmenu(currentHoveredIndex)
+    );
+  };
+
+  /**
+   * Returns the number of grid columns,
+   * measuring the layout when `columns` is `'auto'`.
+   * @returns {number} The number of columns.
+   */
+  const getColumns = (): number => {
+    if (columns === 'auto') {
+      return listRef && listRef.current ? getLayoutColumns(listRef.current) : 1;
+    }
+
+    return Math.max(columns || 1, 1);
+  };
+
+  /**
+   * Finds the item to move to within the grid in response to an arrow key.
+   * @param {string} code - The code of the pressed arrow key.
+   * @returns {number} The new hovered index or -1 if it does not change.
+   */
+  const getGridIndex = (code: string): number => {
+    if (itemsLength <= 0) {
+      return -1;
+    }
+
+    if (currentHoveredIndex < 0 || currentHoveredIndex >= itemsLength) {
+      return getEnabledIndex(0, 1, false);
+    }
+
+    const gridColumns = getColumns();
+    const step = code === UP_KEY || code === LEFT_KEY ? -1 : 1;
+
+    const isHorizontal = code === LEFT_KEY || code === RIGHT_KEY;
+
+    const newIndex = isHorizontal
+      ? findGridHorizontalIndex(
+          currentHoveredIndex,
+          step,
+          gridColumns,
+          itemsLength,
+          isItemDisabled,
+          shouldWrapHorizontally
+        )
+      : findGridVerticalIndex(
+          currentHoveredIndex,
+          step,
+          gridColumns,
+          itemsLength,
+          isItemDisabled,
+          shouldWrapVertically
+        );
+
+    if (newIndex === -1 && !isHorizontal && !shouldWrapVertically) {
+      onBoundaryReached(step === -1 ? 'start' : 'end');
+    }
+
+    return newIndex;
+  };
+
+  /**
+   * Appends the typed character to the typeahead buffer
+   * and finds the matching item.
+   *
+   * Repeating the same character cycles through the items
+   * starting with that character.
+   * @param {string} char - The typed character.
+   * @returns {number} The index of the matching item or -1 if there is none.
+   */
+  const handleTypeahead = (char: string): number => {
+    if (!getItemLabel || itemsLength <= 0) {
+      return -1;
+    }
+
+    const buffer = typeaheadBufferRef.current + char;
 
-  const handleKeyDown = useCallback(
-    (e: KeyboardEvent) => {
-      if (PREVENTABLE_KEYS.includes(e.code)) {
+    typeaheadBufferRef.current = buffer;
+
+    if (typeaheadTimeoutRef.current) {
+      clearTimeout(typeaheadTimeoutRef.current);
+    }
+
+    typeaheadTimeoutRef.current = window.setTimeout(() => {
+      typeaheadBufferRef.current = '';
+      typeaheadTimeoutRef.current = null;
+    }, typeaheadTimeout);
+
+    const isRepeatedChar = buffer
+      .split('')
+      .every((bufferChar) => bufferChar === buffer[0]);
+
+    const search = isRepeatedChar ? buffer[0] : buffer;
+    const fromIndex = Math.max(currentHoveredIndex, 0);
+    const startIndex = isRepeatedChar ? fromIndex + 1 : fromIndex;
+
+    return findTypeaheadMatch(
+      search,
+      startIndex,
+      itemsLength,
+      getItemLabel,
+      isItemDisabled
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    isKeyboardNavigationRef.current = true;
+
+    /**
+     * While a submenu is opened, it handles all the keys itself.
+     */
+    const submenuKeyDown = submenusRef.current.get(openedSubmenuIndex);
+
+    if (isOpened && submenuKeyDown) {
+      submenuKeyDown(e);
+
+      return;
+    }
+
+    const isTextInputTarget = isTextInput(e.target);
+
+    /**
+     * Space typed into a text input belongs to the input value,
+     * so it neither selects an item nor opens the list.
+     */
+    const action =
+      isTextInputTarget && isSpaceKey(e)
+        ? null
+        : getKeyAction(e, keyBindingsByAction, keyMatch, isOpened);
+
+    /**
+     * Space is treated as a part of the search string
+     * only while the user is in the middle of typing.
+     */
+    const isTypeaheadKey =
+      isOpened &&
+      !!getItemLabel &&
+      !isTextInputTarget &&
+      isPrintableKey(e) &&
+      (e.key === ' ' ? typeaheadBufferRef.current !== '' : action === null);
+
+    if (isTypeaheadKey) {
+      e.preventDefault();
+      navigate('Typeahead', handleTypeahead(e.key), e);
+
+      return;
+    }
+
+    const eventKey = keyMatch === 'key' ? e.key : e.code;
+    const code = getLogicalKeyCode(eventKey, direction);
+
+    if (isOpened && !isGrid) {
+      const submenuKeys = SUBMENU_KEYS[orientation];
+
+      if (code === submenuKeys.open && canOpenSubmenu()) {
         e.preventDefault();
+        openSubmenu(currentHoveredIndex);
+
+        return;
       }
 
-      switch (e.code) {
-        case ESCAPE:
-          if (isOpened) {
-            onToggle(false);
-          }
-          break;
+      if (code === submenuKeys.close && isSubmenu) {
+        e.preventDefault();
+        parent.closeSubmenu();
+
+        return;
+      }
+    }
+
+    if (
+      isOpened &&
+      isMultiSelect &&
+      eventKey === SELECT_ALL_KEYS[keyMatch] &&
+      (e.ctrlKey || e.metaKey)
+    ) {
+      e.preventDefault();
+      dispatch('SelectAll', { selectedIndexes: getAllSelection() });
 
-        case UP_KEY:
-          if (isOpened) {
-            updateListPosition(
+      return;
+    }
+
+    if (isGrid && ARROW_KEYS.includes(code)) {
+      if (isOpened) {
+        e.preventDefault();
+        navigate('GridMove', getGridIndex(code), e);
+      }
+
+      return;
+    }
+
+    if (eventKey === PAGE_UP || eventKey === PAGE_DOWN) {
+      if (isOpened && itemsLength > 0) {
+        e.preventDefault();
+
+        const rowsPerPage =
+          listRef && listRef.current
+            ? getPageSize(
+                listRef.current,
+                resolveItemElement(Math.max(currentHoveredIndex, 0)),
+                !isGrid && orientation === 'horizontal'
+              )
+            : DEFAULT_PAGE_SIZE;
+
+        const pageSize = isGrid ? rowsPerPage * getColumns() : rowsPerPage;
+
+        const step = eventKey === PAGE_UP ? -1 : 1;
+        const type = eventKey === PAGE_UP ? 'PageUp' : 'PageDown';
+        const newIndex = Math.min(
+          Math.max(currentHoveredIndex + step * pageSize, 0),
+          itemsLength - 1
+        );
+
+        /**
+         * If the target item is disabled, the nearest enabled item
+         * in the direction of movement is used, and if there is none,
+         * the nearest one in the opposite direction.
+         */
+        const enabledIndex = findEnabledIndex(
+          newIndex,
+          step,
+          itemsLength,
+          isItemDisabled,
+          false
+        );
+
+        navigate(
+          type,
+          enabledIndex !== -1
+            ? enabledIndex
+            : getEnabledIndex(newIndex, step === 1 ? -1 : 1, false),
+          e
+        );
+      }
+
+      return;
+    }
+
+    if (action && PREVENTABLE_ACTIONS.includes(action)) {
+      e.preventDefault();
+    }
+
+    switch (action) {
+      case 'close':
+        if (isOpened) {
+          dispatch(
+            'Escape',
+            isMultiSelect && currentSelectedIndexes.length > 0
+              ? { selectedIndexes: [] }
+              : { isOpened: false }
+          );
+        }
+        break;
+
+      case 'prev':
+      case 'next':
+        if (isOpened) {
+          let newIndex: number;
+
+          if (isGrid) {
+            newIndex = getGridIndex(action === 'prev' ? LEFT_KEY : RIGHT_KEY);
+          } else if (!loop || hasMore) {
+            const step = action === 'prev' ? -1 : 1;
+
+            newIndex = getEnabledIndex(currentHoveredIndex + step, step, false);
+
+            if (newIndex === -1 && !loop) {
+              onBoundaryReached(action === 'prev' ? 'start' : 'end');
+            }
+          } else if (action === 'prev') {
+            newIndex = getEnabledIndex(
               currentHoveredIndex > 0
                 ? currentHoveredIndex - 1
-                : itemsLength - 1
+                : itemsLength - 1,
+              -1,
+              true
             );
-          }
-          break;
-
-        case DOWN_KEY:
-          if (isOpened) {
-            updateListPosition(
+          } else {
+            newIndex = getEnabledIndex(
               currentHoveredIndex < itemsLength - 1
                 ? currentHoveredIndex + 1
-                : 0
+                : 0,
+              1,
+              true
             );
           }
-          break;
-
-        case ENTER:
-        case SPACEBAR:
-          if (
-            isOpened &&
-            currentHoveredIndex >= 0 &&
-            currentHoveredIndex < itemsLength
-          ) {
-            onSelect(currentHoveredIndex);
+
+          navigate(action === 'prev' ? 'Prev' : 'Next', newIndex, e);
+        }
+        break;
+
+      case 'prevGroup':
+      case 'nextGroup':
+        if (isOpened) {
+          navigate(
+            action === 'prevGroup' ? 'PrevGroup' : 'NextGroup',
+            getGroupTargetIndex(action === 'prevGroup' ? -1 : 1),
+            e
+          );
+        }
+        break;
+
+      case 'first':
+        if (isOpened && itemsLength > 0) {
+          e.preventDefault();
+          navigate('First', getEnabledIndex(0, 1, false), e);
+        }
+        break;
+
+      case 'last':
+        if (isOpened && itemsLength > 0) {
+          e.preventDefault();
+          navigate('Last', getEnabledIndex(itemsLength - 1, -1, false), e);
+        }
+        break;
+
+      case 'select':
+        if (
+          isOpened &&
+          currentHoveredIndex >= 0 &&
+          currentHoveredIndex < itemsLength &&
+          !isItemDisabled(currentHoveredIndex)
+        ) {
+          if (isMultiSelect && isSpaceKey(e)) {
+            dispatch('ToggleSelection', {
+              selectedIndexes: getToggledSelection(currentHoveredIndex),
+            });
+          } else if (hasSubmenu(currentHoveredIndex)) {
+            openSubmenu(currentHoveredIndex);
           } else {
-            onToggle(true);
+            select(currentHoveredIndex);
           }
-          break;
+        }
+        break;
+
+      case 'open':
+        if (!isOpened) {
+          dispatch('Open', { isOpened: true });
+        }
+        break;
+
+      default:
+        break;
+    }
+  };
+
+  const handleKeyDownRef = useRef(handleKeyDown);
+
+  handleKeyDownRef.current = handleKeyDown;
+
+  /**
+   * The ref callbacks of the items run right before this effect,
+   * so the registered items are sorted here after every render.
+   */
+  useLayoutEffect(() => {
+    if (!isRegistrationMode) {
+      return;
+    }
+
+    const items = sortByDocumentPosition(
+      Array.from(registrationsRef.current.values())
+    );
 
-        default:
-          break;
+    registeredItemsRef.current = items;
+
+    if (!isSameRegistration(items, registeredItems)) {
+      setRegisteredItems(items);
+    }
+  });
+
+  useEffect(() => {
+    return () => {
+      if (typeaheadTimeoutRef.current) {
+        clearTimeout(typeaheadTimeoutRef.current);
       }
-    },
-    [currentHoveredIndex, isOpened, itemsLength, onSelect, onToggle]
-  );
+    };
+  }, []);
 
   useEffect(() => {
-    if (isOpened) {
-      updateHoveredIndex(currentHoveredIndex);
-      updateListPosition(currentHoveredIndex);
+    if (!isSubmenu) {
+      return;
+    }
+
+    const handleSubmenuKeyDown = (e: KeyboardEvent) => {
+      handleKeyDownRef.current(e);
+    };
+
+    return parent.registerSubmenu(parentIndex, handleSubmenuKeyDown);
+  }, [parent && parent.registerSubmenu, parentIndex]);
+
+  useEffect(() => {
+    if (!isOpened) {
+      setOpenedSubmenuIndex(-1);
+
+      return;
     }
+
+    /**
+     * A submenu always starts from its first enabled item.
+     */
+    const index = isSubmenu
+      ? findEnabledIndex(0, 1, itemsLength, isItemDisabled, false)
+      : currentHoveredIndex;
+
+    if (index < 0 || index >= itemsLength) {
+      return;
+    }
+
+    updateHoveredIndex(index);
+    updateListPosition(index);
   }, [isOpened]);
 
+  useEffect(() => {
+    if (focusStrategy !== 'roving' || !isFocusWithinRef.current) {
+      return;
+    }
+
+    const itemElement = resolveItemElement(currentHoveredIndex);
+
+    if (itemElement && itemElement !== document.activeElement) {
+      itemElement.focus({ preventScroll: true });
+    }
+  }, [currentHoveredIndex]);
+
+  const getTriggerProps = (): UseKeyboardListNavigationTriggerProps => ({
+    'id': `${baseId}-trigger`,
+    'aria-haspopup': 'listbox',
+    'aria-expanded': isOpened,
+    'aria-controls': listId,
+    'aria-activedescendant':
+      focusStrategy === 'virtual' && isOpened && currentHoveredIndex >= 0
+        ? getItemId(currentHoveredIndex)
+        : undefined,
+    'onKeyDown': handleKeyDown,
+  });
+
+  const getListProps = (): UseKeyboardListNavigationListProps => ({
+    'id': listId,
+    'role': 'listbox',
+    'aria-orientation':
+      isGrid || orientation === 'both' ? undefined : orientation,
+    'aria-multiselectable': isMultiSelect || undefined,
+    'tabIndex': -1,
+    'onKeyDown': focusStrategy === 'roving' ? handleKeyDown : undefined,
+    'aria-busy': isLoading || undefined,
+  });
+
+  /**
+   * Records the pointer position of the mouse event.
+   * @param {MouseEvent} e - The mouse event.
+   * @returns {boolean} True if the pointer has moved since the previous event.
+   */
+  const trackPointer = (e: MouseEvent): boolean => {
+    const lastPosition = pointerPositionRef.current;
+
+    pointerPositionRef.current = { x: e.clientX, y: e.clientY };
+
+    return (
+      !lastPosition ||
+      lastPosition.x !== e.clientX ||
+      lastPosition.y !== e.clientY
+    );
+  };
+
+  const getGroupProps = (
+    groupIndex: number
+  ): UseKeyboardListNavigationGroupProps => ({
+    'role': 'group',
+    'aria-labelledby': getGroupLabelId(groupIndex),
+  });
+
+  const getGroupLabelProps = (
+    groupIndex: number
+  ): UseKeyboardListNavigationGroupLabelProps => ({
+    id: getGroupLabelId(groupIndex),
+    role: 'presentation',
+  });
+
+  const getItemProps = (index: number): UseKeyboardListNavigationItemProps => {
+    const isDisabled = isItemDisabled(index);
+    const isSubmenuItem = hasSubmenu(index);
+    const isRoving = focusStrategy === 'roving';
+
+    return {
+      'id': getItemId(index),
+      'role': 'option',
+      'aria-selected': isMultiSelect
+        ? currentSelectedIndexes.includes(index)
+        : index === currentHoveredIndex,
+      'aria-disabled': isDisabled || undefined,
+      'aria-haspopup': isSubmenuItem ? 'listbox' : undefined,
+      'aria-expanded': isSubmenuItem ? openedSubmenuIndex === index : undefined,
+      'tabIndex': isRoving
+        ? index === currentHoveredIndex
+          ? 0
+          : -1
+        : undefined,
+      'onMouseEnter': (e) => {
+        trackPointer(e);
+
+        /**
+         * With the roving focus the hovered item is the focused one,
+         * so the mouse does not move it.
+         */
+        if (
+          !isRoving &&
+          !isKeyboardNavigationRef.current &&
+          !isDisabled &&
+          index !== currentHoveredIndex
+        ) {
+          dispatch('MouseHover', { hoveredIndex: index }, false);
+        }
+      },
+      'onMouseMove': (e) => {
+        if (!trackPointer(e)) {
+          return;
+        }
+
+        isKeyboardNavigationRef.current = false;
+
+        if (!isRoving && !isDisabled && index !== currentHoveredIndex) {
+          dispatch('MouseHover', { hoveredIndex: index }, false);
+        }
+      },
+      'onFocus': () => {
+        isFocusWithinRef.current = true;
+
+        if (!isDisabled && index !== currentHoveredIndex) {
+          dispatch('ItemFocus', { hoveredIndex: index }, false);
+        }
+      },
+      'onBlur': () => {
+        isFocusWithinRef.current = false;
+      },
+      'onClick': () => {
+        if (isDisabled) {
+          return;
+        }
+
+        if (isMultiSelect) {
+          dispatch('ToggleSelection', {
+            selectedIndexes: getToggledSelection(index),
+          });
+        } else if (isSubmenuItem) {
+          openSubmenu(index);
+        } else {
+          select(index);
+        }
+      },
+    };
+  };
+
   return {
     currentHoveredIndex,
     updateHoveredIndex,
     updateListPosition,
     onKeyDown: handleKeyDown,
+    openedSubmenuIndex,
+    openSubmenu,
+    closeSubmenu,
+    registerSubmenu,
+    getTriggerProps,
+    getListProps,
+    getItemProps,
+    getGroupProps,
+    getGroupLabelProps,
+    registerItem,
+    getItemIndex,
+    currentSelectedIndexes,
+    updateSelectedIndexes,
   };
 };
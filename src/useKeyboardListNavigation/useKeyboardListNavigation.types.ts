@@ -0,0 +1,722 @@
+import {
+  FocusEventHandler,
+  KeyboardEvent,
+  KeyboardEventHandler,
+  MouseEventHandler,
+  RefCallback,
+  RefObject,
+} from 'react';
+
+/**
+ * The axis along which the list items are laid out.
+ */
+export type UseKeyboardListNavigationOrientation =
+  | 'vertical'
+  | 'horizontal'
+  | 'both';
+
+/**
+ * The text direction of the list.
+ */
+export type UseKeyboardListNavigationDirection = 'ltr' | 'rtl';
+
+/**
+ * An action that can be bound to keys.
+ *
+ * - `next`, `prev` - move to the next/previous item;
+ * - `select` - select the hovered item while the list is opened;
+ * - `open` - open the list while it is closed;
+ * - `close` - close the list;
+ * - `first`, `last` - move to the first/last item;
+ * - `nextGroup`, `prevGroup` - move to the first item of the next/previous group.
+ */
+export type UseKeyboardListNavigationAction =
+  | 'next'
+  | 'prev'
+  | 'select'
+  | 'open'
+  | 'close'
+  | 'first'
+  | 'last'
+  | 'nextGroup'
+  | 'prevGroup';
+
+/**
+ * A key, optionally combined with modifiers.
+ * Modifiers that are not specified are not checked.
+ */
+export type UseKeyboardListNavigationKeyBinding =
+  | string
+  | {
+      /**
+       * The `code` or the `key` of the keyboard event, depending on `keyMatch`.
+       */
+      key: string;
+      /**
+       * Whether Shift must be pressed.
+       */
+      shiftKey?: boolean;
+      /**
+       * Whether Ctrl must be pressed.
+       */
+      ctrlKey?: boolean;
+      /**
+       * Whether Alt must be pressed.
+       */
+      altKey?: boolean;
+      /**
+       * Whether Meta (Cmd) must be pressed.
+       */
+      metaKey?: boolean;
+    };
+
+/**
+ * Keys bound to each action.
+ */
+export type UseKeyboardListNavigationKeyBindings = Partial<
+  Record<UseKeyboardListNavigationAction, UseKeyboardListNavigationKeyBinding[]>
+>;
+
+/**
+ * Which property of the keyboard event the key bindings are matched against.
+ *
+ * - `code` - the physical key, independent of the keyboard layout;
+ * - `key` - the produced character, depends on the keyboard layout.
+ */
+export type UseKeyboardListNavigationKeyMatch = 'code' | 'key';
+
+/**
+ * The edge of the list reached by the navigation.
+ */
+export type UseKeyboardListNavigationBoundary = 'start' | 'end';
+
+/**
+ * How the hovered item is aligned within the list when it is scrolled into view.
+ *
+ * - `nearest` - scroll only if the item is not fully visible, by the minimal distance;
+ * - `center` - center the item;
+ * - `start` - align the item with the start of the list;
+ * - `end` - align the item with the end of the list;
+ * - `none` - do not scroll.
+ */
+export type UseKeyboardListNavigationScrollAlignment =
+  | 'nearest'
+  | 'center'
+  | 'start'
+  | 'end'
+  | 'none';
+
+/**
+ * The state managed by the hook.
+ */
+export interface UseKeyboardListNavigationState {
+  /**
+   * The index of the hovered item.
+   */
+  hoveredIndex: number;
+  /**
+   * Whether the list is opened.
+   */
+  isOpened: boolean;
+  /**
+   * The sorted indexes of the selected items in the multi-select mode.
+   */
+  selectedIndexes: number[];
+  /**
+   * The index of the item whose submenu is opened, or `-1`.
+   */
+  openedSubmenuIndex: number;
+}
+
+/**
+ * The type of a state transition.
+ *
+ * - `Next`, `Prev`, `First`, `Last`, `PageDown`, `PageUp` - the hovered item is moved with the keyboard;
+ * - `NextGroup`, `PrevGroup` - the hovered item is moved to another group;
+ * - `GridMove` - the hovered item is moved with an arrow key in the grid;
+ * - `Typeahead` - the hovered item is moved to the item matching the typed characters;
+ * - `Select` - the hovered item is selected with the keyboard or a click, `onSelect` is called with the resulting hovered index;
+ * - `Open` - the list is opened with the keyboard;
+ * - `Escape` - the selection is cleared or the list is closed;
+ * - `ToggleSelection` - an item is added to the selection or removed from it;
+ * - `SelectAll` - all items are selected;
+ * - `MouseHover` - an item is hovered with the mouse;
+ * - `ItemFocus` - an item receives the DOM focus;
+ * - `OpenSubmenu` - the submenu of an item is opened;
+ * - `CloseSubmenu` - the opened submenu is closed and its item is hovered again.
+ */
+export type UseKeyboardListNavigationStateChangeType =
+  | 'Next'
+  | 'Prev'
+  | 'First'
+  | 'Last'
+  | 'PageDown'
+  | 'PageUp'
+  | 'NextGroup'
+  | 'PrevGroup'
+  | 'GridMove'
+  | 'Typeahead'
+  | 'Select'
+  | 'Open'
+  | 'Escape'
+  | 'ToggleSelection'
+  | 'SelectAll'
+  | 'MouseHover'
+  | 'ItemFocus'
+  | 'OpenSubmenu'
+  | 'CloseSubmenu';
+
+/**
+ * A state transition passed to `stateReducer`.
+ */
+export interface UseKeyboardListNavigationStateChange {
+  /**
+   * The type of the transition.
+   */
+  type: UseKeyboardListNavigationStateChangeType;
+  /**
+   * The state the hook is going to apply.
+   */
+  changes: UseKeyboardListNavigationState;
+}
+
+/**
+ * How the hovered item is focused.
+ *
+ * - `virtual` - the trigger keeps the DOM focus and points to the hovered item with `aria-activedescendant`;
+ * - `roving` - the DOM focus moves between the items and only the hovered item is tabbable.
+ */
+export type UseKeyboardListNavigationFocusStrategy = 'virtual' | 'roving';
+
+/**
+ * Space reserved at the edges of the list, e.g. for sticky headers.
+ */
+export interface UseKeyboardListNavigationScrollPadding {
+  /**
+   * Space reserved at the top (or the left for the horizontal orientation).
+   */
+  start?: number;
+  /**
+   * Space reserved at the bottom (or the right for the horizontal orientation).
+   */
+  end?: number;
+}
+
+/**
+ * Wrapping behavior of the grid navigation, per axis.
+ */
+export interface UseKeyboardListNavigationGridWrap {
+  /**
+   * Whether ArrowLeft/ArrowRight continue from the previous/next row
+   * when the edge of a row is reached.
+   * @default true
+   */
+  horizontal?: boolean;
+  /**
+   * Whether ArrowUp/ArrowDown continue from the other end of the column
+   * when the first/last row is reached.
+   * @default true
+   */
+  vertical?: boolean;
+}
+
+/**
+ * Props for the element that owns the keyboard focus and toggles the list.
+ */
+export interface UseKeyboardListNavigationTriggerProps {
+  /**
+   * Stable id of the trigger element.
+   */
+  'id': string;
+  /**
+   * The kind of popup the trigger opens.
+   */
+  'aria-haspopup': 'listbox';
+  /**
+   * Whether the list is opened.
+   */
+  'aria-expanded': boolean;
+  /**
+   * Id of the list element.
+   */
+  'aria-controls': string;
+  /**
+   * Id of the hovered item while the list is opened.
+   */
+  'aria-activedescendant': string | undefined;
+  /**
+   * Keyboard event handler for the navigation context.
+   */
+  'onKeyDown': KeyboardEventHandler<HTMLElement>;
+}
+
+/**
+ * Props for the list element.
+ */
+export interface UseKeyboardListNavigationListProps {
+  /**
+   * Stable id of the list element.
+   */
+  'id': string;
+  /**
+   * The role of the list element.
+   */
+  'role': 'listbox';
+  /**
+   * The axis along which the items are laid out.
+   */
+  'aria-orientation': 'vertical' | 'horizontal' | undefined;
+  /**
+   * Whether several items can be selected.
+   */
+  'aria-multiselectable': boolean | undefined;
+  /**
+   * Keeps the list focusable by script only.
+   */
+  'tabIndex': -1;
+  /**
+   * Keyboard event handler for the events bubbling from the focused item
+   * in the roving focus strategy.
+   */
+  'onKeyDown': KeyboardEventHandler<HTMLElement> | undefined;
+  /**
+   * Whether more items are being loaded.
+   */
+  'aria-busy': true | undefined;
+}
+
+/**
+ * A group of consecutive items rendered under a section header.
+ */
+export interface UseKeyboardListNavigationGroup {
+  /**
+   * The number of items in the group, not counting the header.
+   */
+  itemsLength: number;
+}
+
+/**
+ * Props for the group element.
+ */
+export interface UseKeyboardListNavigationGroupProps {
+  /**
+   * The role of the group element.
+   */
+  'role': 'group';
+  /**
+   * Id of the group header.
+   */
+  'aria-labelledby': string;
+}
+
+/**
+ * Props for the group header element.
+ */
+export interface UseKeyboardListNavigationGroupLabelProps {
+  /**
+   * Stable id of the group header.
+   */
+  id: string;
+  /**
+   * Hides the header from the list of options.
+   */
+  role: 'presentation';
+}
+
+/**
+ * Data of an item registered with `registerItem`.
+ */
+export interface UseKeyboardListNavigationItemRegistration<T> {
+  /**
+   * The value passed to `onSelect` when the item is selected.
+   */
+  value?: T;
+  /**
+   * Whether the item is disabled.
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Props for the item element.
+ */
+export interface UseKeyboardListNavigationItemProps {
+  /**
+   * Stable id of the item element.
+   */
+  'id': string;
+  /**
+   * The role of the item element.
+   */
+  'role': 'option';
+  /**
+   * Whether the item is selected in the multi-select mode,
+   * otherwise whether the item is hovered.
+   */
+  'aria-selected': boolean;
+  /**
+   * Whether the item is disabled.
+   */
+  'aria-disabled': boolean | undefined;
+  /**
+   * The kind of popup the item opens, if it has a submenu.
+   */
+  'aria-haspopup': 'listbox' | undefined;
+  /**
+   * Whether the submenu of the item is opened, if it has a submenu.
+   */
+  'aria-expanded': boolean | undefined;
+  /**
+   * Makes only the hovered item tabbable in the roving focus strategy.
+   */
+  'tabIndex': 0 | -1 | undefined;
+  /**
+   * Syncs the hovered index with the mouse,
+   * unless the hovered item was last moved with the keyboard.
+   */
+  'onMouseEnter': MouseEventHandler<HTMLElement>;
+  /**
+   * Syncs the hovered index with the mouse when the pointer actually moves,
+   * which ends the keyboard navigation.
+   */
+  'onMouseMove': MouseEventHandler<HTMLElement>;
+  /**
+   * Syncs the hovered index with the focused item.
+   */
+  'onFocus': FocusEventHandler<HTMLElement>;
+  /**
+   * Tracks whether the DOM focus leaves the items.
+   */
+  'onBlur': FocusEventHandler<HTMLElement>;
+  /**
+   * Selects the item or opens its submenu.
+   * Toggles the item selection in the multi-select mode.
+   */
+  'onClick': MouseEventHandler<HTMLElement>;
+}
+
+/**
+ * Options for the useKeyboardListNavigation hook.
+ */
+export interface UseKeyboardListNavigationOptions<T = unknown> {
+  /**
+   * The total number of items available for navigation.
+   * When omitted, the items registered with `registerItem` are navigated
+   * in the order of their elements in the document.
+   */
+  itemsLength?: number;
+  /**
+   * A boolean indicating whether the navigation context is currently open.
+   */
+  isOpened?: boolean;
+  /**
+   * Callback triggered when an item is selected, with the selected index
+   * and the value of the registered item as arguments.
+   */
+  onSelect: (index: number, value?: T) => void;
+  /**
+   * Callback triggered when toggling the navigation context.
+   * Not called for submenus, which are opened and closed by their parent.
+   */
+  onToggle?: (isOpened: boolean) => void;
+  /**
+   * Callback triggered when hoveredIndex changes.
+   */
+  onHoveredIndexChange?: (index: number) => void;
+  /**
+   * The index of the initially hovered item.
+   */
+  hoveredIndex?: number;
+  /**
+   * The ref to the navigation context, the scroll container of the items.
+   */
+  listRef: RefObject<HTMLElement> | null;
+  /**
+   * Returns the text label of the item at the given index.
+   * When provided, typing printable characters moves the hovered index
+   * to the next item whose label starts with the typed string.
+   */
+  getItemLabel?: (index: number) => string;
+  /**
+   * Time in milliseconds after which the typed characters are forgotten
+   * and the typeahead search starts over.
+   * @default 500
+   */
+  typeaheadTimeout?: number;
+  /**
+   * Returns whether the item at the given index is disabled.
+   * Disabled items are skipped during navigation and cannot be selected.
+   */
+  isItemDisabled?: (index: number) => boolean;
+  /**
+   * The number of columns when items are laid out in a grid.
+   * When set, ArrowLeft/ArrowRight move to the neighbouring items
+   * and ArrowUp/ArrowDown move between rows.
+   * Pass `'auto'` to derive the number of columns from the layout
+   * of the `listRef` children.
+   */
+  columns?: number | 'auto';
+  /**
+   * Wrapping behavior of the grid navigation, per axis.
+   * Only used when `columns` is set.
+   */
+  gridWrap?: UseKeyboardListNavigationGridWrap;
+  /**
+   * The axis along which the items are laid out.
+   *
+   * - `vertical` - ArrowUp/ArrowDown move between items, ArrowRight opens a submenu.
+   * - `horizontal` - ArrowLeft/ArrowRight move between items, ArrowDown opens a submenu.
+   * - `both` - all arrow keys move between items.
+   *
+   * Ignored when `columns` is set.
+   * @default 'vertical'
+   */
+  orientation?: UseKeyboardListNavigationOrientation;
+  /**
+   * The text direction of the list.
+   * In `rtl`, ArrowLeft and ArrowRight are swapped.
+   * @default 'ltr'
+   */
+  direction?: UseKeyboardListNavigationDirection;
+  /**
+   * Returns whether the item at the given index opens a submenu.
+   * ArrowRight (ArrowDown for the horizontal orientation), Enter or Space
+   * on such an item opens the submenu instead of selecting the item.
+   */
+  hasSubmenu?: (index: number) => boolean;
+  /**
+   * The result of the parent hook when this list is a submenu.
+   * The submenu is opened while the parent's `openedSubmenuIndex`
+   * equals `parentIndex`, and the `isOpened` option is ignored.
+   */
+  parent?: Pick<
+    UseKeyboardListNavigationResult,
+    'openedSubmenuIndex' | 'closeSubmenu' | 'registerSubmenu'
+  >;
+  /**
+   * The index of the parent item that opens this submenu.
+   */
+  parentIndex?: number;
+  /**
+   * The base for the ids of the trigger, the list and the items
+   * returned by the prop getters. Generated automatically if not provided.
+   */
+  id?: string;
+  /**
+   * Enables the multi-select mode:
+   *
+   * - Space toggles the selection of the hovered item;
+   * - Shift+Arrow extends the selected range from the anchor item;
+   * - Ctrl/Cmd+A selects all the enabled items;
+   * - Escape clears the selection before closing the list.
+   * @default false
+   */
+  isMultiSelect?: boolean;
+  /**
+   * The indexes of the initially selected items in the multi-select mode.
+   */
+  selectedIndexes?: number[];
+  /**
+   * Callback triggered when the selected items change,
+   * with the sorted selected indexes as an argument.
+   */
+  onSelectionChange?: (indexes: number[]) => void;
+  /**
+   * Scrolls the item at the given index into view.
+   * When provided, it replaces the built-in scrolling of `listRef`,
+   * which allows driving virtualized lists whose items are not all rendered.
+   * @example
+   * // react-window
+   * scrollToIndex: (index) => listRef.current.scrollToItem(index)
+   */
+  scrollToIndex?: (index: number) => void;
+  /**
+   * Returns the element of the item at the given index,
+   * or null if it is not rendered.
+   * Defaults to the child of `listRef` at the given index.
+   */
+  getItemElement?: (index: number) => HTMLElement | null;
+  /**
+   * Keys bound to the actions. Bindings of the specified actions
+   * replace the default ones, the other actions keep their defaults.
+   * @example
+   * // Vim-style navigation
+   * keyBindings: { next: ['ArrowDown', 'KeyJ'], prev: ['ArrowUp', 'KeyK'] }
+   */
+  keyBindings?: UseKeyboardListNavigationKeyBindings;
+  /**
+   * Whether the key bindings are matched against `code` or `key`
+   * of the keyboard event.
+   * @default 'code'
+   */
+  keyMatch?: UseKeyboardListNavigationKeyMatch;
+  /**
+   * Whether moving past the last item continues from the first one
+   * and vice versa. Use `gridWrap` for the grid navigation.
+   * @default true
+   */
+  loop?: boolean;
+  /**
+   * Callback triggered when moving past the first (`start`) or the last (`end`)
+   * item is prevented because `loop` is disabled, or because vertical
+   * `gridWrap` is disabled for the grid navigation.
+   * @example
+   * // Return focus to the search input or load more results
+   * onBoundaryReached: (boundary) =>
+   *   boundary === 'start' ? inputRef.current.focus() : loadMore()
+   */
+  onBoundaryReached?: (boundary: UseKeyboardListNavigationBoundary) => void;
+  /**
+   * How the hovered item is aligned within the list
+   * when it is scrolled into view.
+   * @default 'center'
+   */
+  scrollAlignment?: UseKeyboardListNavigationScrollAlignment;
+  /**
+   * Whether the list is scrolled instantly or smoothly.
+   * @default 'auto'
+   */
+  scrollBehavior?: 'auto' | 'smooth';
+  /**
+   * Space reserved at the edges of the list that the hovered item
+   * must not be scrolled under, e.g. for sticky headers.
+   * A number applies to both edges.
+   * @default 0
+   */
+  scrollPadding?: number | UseKeyboardListNavigationScrollPadding;
+  /**
+   * How the hovered item is focused. With `roving` the DOM focus follows
+   * the hovered item while it is within the list, and the last focused item
+   * stays tabbable when the focus leaves the list.
+   * @default 'virtual'
+   */
+  focusStrategy?: UseKeyboardListNavigationFocusStrategy;
+  /**
+   * The groups the items are split into, in order. Item indexes do not
+   * count the group headers, and the items of all groups add up to `itemsLength`.
+   * Ctrl + arrow keys jump between the groups.
+   */
+  groups?: UseKeyboardListNavigationGroup[];
+  /**
+   * Intercepts every state transition. Receives the current state
+   * and the transition with the state the hook is going to apply,
+   * and returns the state to apply instead.
+   * Returning the current `state` itself cancels the transition,
+   * e.g. `onSelect` is not called for a cancelled `Select`.
+   * @example
+   * // Keep the list opened on Escape while the selection is empty
+   * stateReducer: (state, { type, changes }) =>
+   *   type === 'Escape' ? { ...changes, isOpened: true } : changes
+   */
+  stateReducer?: (
+    state: UseKeyboardListNavigationState,
+    stateChange: UseKeyboardListNavigationStateChange
+  ) => UseKeyboardListNavigationState;
+  /**
+   * Callback triggered when the keyboard moves the hovered item close to
+   * the end of the list while `hasMore` is set and `isLoading` is not.
+   */
+  onLoadMore?: () => void;
+  /**
+   * Whether more items are being loaded.
+   * @default false
+   */
+  isLoading?: boolean;
+  /**
+   * Whether more items can be loaded after the last one.
+   * The list does not loop while it has more items.
+   * @default false
+   */
+  hasMore?: boolean;
+  /**
+   * How many items before the end of the list `onLoadMore` is called.
+   * @default 3
+   */
+  loadMoreThreshold?: number;
+}
+
+/**
+ * Result returned by the useKeyboardListNavigation hook.
+ */
+export interface UseKeyboardListNavigationResult<T = unknown> {
+  /**
+   * The index of the currently hovered item.
+   */
+  currentHoveredIndex: number;
+  /**
+   * Function to change the hoveredIndex programmatically.
+   */
+  updateHoveredIndex: (index: number) => void;
+  /**
+   * Function to change the hoveredIndex programmatically.
+   */
+  updateListPosition: (index: number) => void;
+  /**
+   * Keyboard event handler for the navigation context.
+   */
+  onKeyDown: KeyboardEventHandler<HTMLElement>;
+  /**
+   * The index of the item whose submenu is currently opened, or -1.
+   */
+  openedSubmenuIndex: number;
+  /**
+   * Opens the submenu of the item at the given index.
+   */
+  openSubmenu: (index: number) => void;
+  /**
+   * Closes the opened submenu and restores the hovered index
+   * to the item that opened it.
+   */
+  closeSubmenu: () => void;
+  /**
+   * Registers the keyboard handler of the submenu opened by the item
+   * at the given index. Used by nested hooks through the `parent` option.
+   * Returns a function that removes the registration.
+   */
+  registerSubmenu: (
+    index: number,
+    onKeyDown: (e: KeyboardEvent) => void
+  ) => () => void;
+  /**
+   * Returns the props for the element that owns the keyboard focus
+   * and toggles the list.
+   */
+  getTriggerProps: () => UseKeyboardListNavigationTriggerProps;
+  /**
+   * Returns the props for the list element.
+   */
+  getListProps: () => UseKeyboardListNavigationListProps;
+  /**
+   * Returns the props for the item element at the given index.
+   */
+  getItemProps: (index: number) => UseKeyboardListNavigationItemProps;
+  /**
+   * Returns the ref callback that registers the item element
+   * when `itemsLength` is omitted.
+   */
+  registerItem: (
+    registration?: UseKeyboardListNavigationItemRegistration<T>
+  ) => RefCallback<HTMLElement>;
+  /**
+   * Returns the index of the registered item with the given value or -1.
+   */
+  getItemIndex: (value: T) => number;
+  /**
+   * Returns the props for the group element at the given group index.
+   */
+  getGroupProps: (groupIndex: number) => UseKeyboardListNavigationGroupProps;
+  /**
+   * Returns the props for the header of the group at the given group index.
+   */
+  getGroupLabelProps: (
+    groupIndex: number
+  ) => UseKeyboardListNavigationGroupLabelProps;
+  /**
+   * The indexes of the selected items in the multi-select mode.
+   */
+  currentSelectedIndexes: number[];
+  /**
+   * Function to change the selected items programmatically.
+   */
+  updateSelectedIndexes: (indexes: number[]) => void;
+}
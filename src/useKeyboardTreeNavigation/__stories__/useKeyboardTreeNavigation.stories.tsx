@@ -0,0 +1,93 @@
+import React, { useRef } from 'react';
+import { StoryFn, Meta } from '@storybook/react';
+import { useKeyboardTreeNavigation } from '../useKeyboardTreeNavigation';
+import { UseKeyboardTreeNavigationNode } from '../useKeyboardTreeNavigation.types';
+
+interface TemplateArgs {
+  /**
+   * All nodes of the tree in the depth-first order.
+   */
+  nodes: UseKeyboardTreeNavigationNode[];
+  /**
+   * The ids of the initially expanded nodes.
+   */
+  expandedIds: string[];
+}
+
+export default {
+  title: 'Hooks/useKeyboardTreeNavigation',
+  component: useKeyboardTreeNavigation as unknown,
+} as Meta;
+
+const Template: StoryFn<TemplateArgs> = ({
+  nodes,
+  expandedIds,
+}: TemplateArgs) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const {
+    visibleNodes,
+    currentHoveredIndex,
+    currentExpandedIds,
+    toggleNode,
+    getTreeProps,
+    getNodeProps,
+  } = useKeyboardTreeNavigation({
+    nodes,
+    expandedIds,
+    onSelect: (node) => alert(`Selected: ${node.label}`),
+    listRef,
+  });
+
+  return (
+    <div>
+      <h1>useKeyboardTreeNavigation Demo</h1>
+      <div ref={listRef} {...getTreeProps()}>
+        {visibleNodes.map((node, index) => (
+          <div
+            key={node.id}
+            {...getNodeProps(index)}
+            style={{
+              padding: '5px',
+              paddingLeft: `${5 + node.depth * 20}px`,
+              background:
+                currentHoveredIndex === index ? 'lightblue' : 'transparent',
+            }}
+          >
+            {node.hasChildren && (
+              <span
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleNode(node.id);
+                }}
+              >
+                {currentExpandedIds.includes(node.id) ? '▾ ' : '▸ '}
+              </span>
+            )}
+            {node.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const Demo = {
+  args: {
+    nodes: [
+      { id: 'templates', depth: 0, hasChildren: true, label: 'Templates' },
+      { id: 'welcome', depth: 1, label: 'Welcome' },
+      { id: 'follow-up', depth: 1, hasChildren: true, label: 'Follow-up' },
+      { id: 'first-reminder', depth: 2, label: 'First reminder' },
+      { id: 'last-reminder', depth: 2, label: 'Last reminder' },
+      { id: 'pipelines', depth: 0, hasChildren: true, label: 'Pipelines' },
+      { id: 'sales', depth: 1, label: 'Sales' },
+      { id: 'support', depth: 1, label: 'Support' },
+      { id: 'drafts', depth: 0, label: 'Drafts' },
+    ],
+    expandedIds: ['templates'],
+  },
+  render: ({ nodes, expandedIds }) => (
+    <Template nodes={nodes} expandedIds={expandedIds} />
+  ),
+};
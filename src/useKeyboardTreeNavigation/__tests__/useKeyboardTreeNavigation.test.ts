@@ -0,0 +1,238 @@
+import { KeyboardEvent } from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import { useKeyboardTreeNavigation } from '../useKeyboardTreeNavigation';
+import {
+  UseKeyboardTreeNavigationNode,
+  UseKeyboardTreeNavigationOptions,
+} from '../useKeyboardTreeNavigation.types';
+
+describe('useKeyboardTreeNavigation', () => {
+  const onSelect = jest.fn();
+  const onExpandedChange = jest.fn();
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const nodes: UseKeyboardTreeNavigationNode[] = [
+    { id: 'documents', depth: 0, hasChildren: true, label: 'Documents' },
+    { id: 'invoices', depth: 1, hasChildren: true, label: 'Invoices' },
+    { id: '2024', depth: 2, label: '2024' },
+    { id: 'contracts', depth: 1, label: 'Contracts' },
+    { id: 'pipelines', depth: 0, hasChildren: true, label: 'Pipelines' },
+    { id: 'sales', depth: 1, label: 'Sales' },
+    { id: 'archive', depth: 0, label: 'Archive' },
+  ];
+
+  const createListRef = () => {
+    const tree = document.createElement('div');
+
+    nodes.forEach((node) => {
+      const treeItem = document.createElement('div');
+
+      treeItem.textContent = node.label || node.id;
+      tree.appendChild(treeItem);
+    });
+
+    return { current: tree };
+  };
+
+  const renderTreeHook = (
+    options: Partial<UseKeyboardTreeNavigationOptions> = {}
+  ) => {
+    const listRef = createListRef();
+
+    return renderHook(() =>
+      useKeyboardTreeNavigation({
+        nodes,
+        onSelect,
+        onExpandedChange,
+        listRef,
+        ...options,
+      })
+    );
+  };
+
+  const press = (
+    result: ReturnType<typeof renderTreeHook>['result'],
+    code: string,
+    key: string = code
+  ) => {
+    const event = { code, key, preventDefault: jest.fn() };
+
+    act(() => {
+      result.current.onKeyDown(event as unknown as KeyboardEvent<HTMLElement>);
+    });
+
+    return event;
+  };
+
+  const getVisibleIds = (result: ReturnType<typeof renderTreeHook>['result']) =>
+    result.current.visibleNodes.map((node) => node.id);
+
+  it('should show only the nodes outside the collapsed branches', () => {
+    const { result } = renderTreeHook({ expandedIds: ['documents'] });
+
+    expect(getVisibleIds(result)).toEqual([
+      'documents',
+      'invoices',
+      'contracts',
+      'pipelines',
+      'archive',
+    ]);
+  });
+
+  it('should navigate the visible nodes with ArrowUp and ArrowDown', () => {
+    const { result } = renderTreeHook();
+
+    press(result, 'ArrowDown');
+    expect(result.current.currentHoveredIndex).toBe(1);
+
+    press(result, 'ArrowDown');
+    press(result, 'ArrowDown');
+    expect(result.current.currentHoveredIndex).toBe(0);
+
+    press(result, 'ArrowUp');
+    expect(result.current.currentHoveredIndex).toBe(2);
+  });
+
+  it('should expand the node and then move to its first child with ArrowRight', () => {
+    const { result } = renderTreeHook();
+
+    const event = press(result, 'ArrowRight');
+
+    expect(event.preventDefault).toHaveBeenCalled();
+    expect(onExpandedChange).toHaveBeenCalledWith(['documents']);
+    expect(result.current.currentExpandedIds).toEqual(['documents']);
+    expect(result.current.currentHoveredIndex).toBe(0);
+
+    press(result, 'ArrowRight');
+
+    expect(result.current.currentHoveredIndex).toBe(1);
+  });
+
+  it('should not expand a leaf node', () => {
+    const { result } = renderTreeHook({ hoveredIndex: 3 });
+
+    press(result, 'ArrowRight');
+
+    expect(onExpandedChange).not.toHaveBeenCalled();
+    expect(result.current.currentHoveredIndex).toBe(3);
+  });
+
+  it('should collapse the node and then move to its parent with ArrowLeft', () => {
+    const { result } = renderTreeHook({
+      expandedIds: ['documents', 'invoices'],
+      hoveredIndex: 1,
+    });
+
+    press(result, 'ArrowLeft');
+
+    expect(result.current.currentExpandedIds).toEqual(['documents']);
+    expect(result.current.currentHoveredIndex).toBe(1);
+
+    press(result, 'ArrowLeft');
+
+    expect(result.current.currentHoveredIndex).toBe(0);
+  });
+
+  it('should swap ArrowLeft and ArrowRight in the rtl direction', () => {
+    const { result } = renderTreeHook({ direction: 'rtl' });
+
+    press(result, 'ArrowLeft');
+    expect(result.current.currentExpandedIds).toEqual(['documents']);
+
+    press(result, 'ArrowRight');
+    expect(result.current.currentExpandedIds).toEqual([]);
+  });
+
+  it('should expand all siblings with * and keep the hovered node', () => {
+    const { result } = renderTreeHook({ hoveredIndex: 1 });
+
+    press(result, 'NumpadMultiply', '*');
+
+    expect(result.current.currentExpandedIds).toEqual([
+      'documents',
+      'pipelines',
+    ]);
+    expect(getVisibleIds(result)).toEqual([
+      'documents',
+      'invoices',
+      'contracts',
+      'pipelines',
+      'sales',
+      'archive',
+    ]);
+    expect(result.current.currentHoveredIndex).toBe(3);
+  });
+
+  it('should hover the closest visible ancestor when the hovered node is hidden', () => {
+    const { result } = renderTreeHook({
+      expandedIds: ['documents', 'invoices'],
+      hoveredIndex: 2,
+    });
+
+    act(() => {
+      result.current.toggleNode('documents');
+    });
+
+    expect(getVisibleIds(result)).toEqual([
+      'documents',
+      'pipelines',
+      'archive',
+    ]);
+    expect(result.current.currentHoveredIndex).toBe(0);
+  });
+
+  it('should select the hovered node with Enter', () => {
+    const { result } = renderTreeHook({ hoveredIndex: 2 });
+
+    press(result, 'Enter');
+
+    expect(onSelect).toHaveBeenCalledWith(nodes[6], 2);
+  });
+
+  it('should skip disabled nodes', () => {
+    const { result } = renderTreeHook({
+      nodes: nodes.map((node) =>
+        node.id === 'pipelines' ? { ...node, isDisabled: true } : node
+      ),
+    });
+
+    press(result, 'ArrowDown');
+
+    expect(result.current.currentHoveredIndex).toBe(2);
+  });
+
+  it('should return the tree ARIA props', () => {
+    const { result } = renderTreeHook({
+      id: 'folders',
+      expandedIds: ['documents'],
+    });
+
+    expect(result.current.getTreeProps()).toEqual(
+      expect.objectContaining({
+        'id': 'folders-list',
+        'role': 'tree',
+        'aria-activedescendant': 'folders-item-0',
+      })
+    );
+    expect(result.current.getNodeProps(0)).toEqual(
+      expect.objectContaining({
+        'id': 'folders-item-0',
+        'role': 'treeitem',
+        'aria-level': 1,
+        'aria-selected': true,
+        'aria-expanded': true,
+      })
+    );
+    expect(result.current.getNodeProps(1)).toEqual(
+      expect.objectContaining({
+        'aria-level': 2,
+        'aria-selected': false,
+        'aria-expanded': false,
+      })
+    );
+    expect(result.current.getNodeProps(2)['aria-expanded']).toBeUndefined();
+  });
+});
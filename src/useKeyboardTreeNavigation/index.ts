@@ -0,0 +1 @@
+export { useKeyboardTreeNavigation } from './useKeyboardTreeNavigation';
@@ -0,0 +1,313 @@
+import { KeyboardEvent, useEffect, useRef, useState } from 'react';
+
+import {
+  UseKeyboardTreeNavigationNode,
+  UseKeyboardTreeNavigationNodeProps,
+  UseKeyboardTreeNavigationOptions,
+  UseKeyboardTreeNavigationResult,
+  UseKeyboardTreeNavigationTreeProps,
+} from './useKeyboardTreeNavigation.types';
+import { useKeyboardListNavigation } from '../useKeyboardListNavigation';
+import { useDeepCompareEffect } from '../useDeepCompareEffect';
+
+const LEFT_KEY = 'ArrowLeft';
+const RIGHT_KEY = 'ArrowRight';
+const EXPAND_SIBLINGS_KEY = '*';
+
+const EMPTY_EXPANDED_IDS: string[] = [];
+
+/**
+ * Returns the nodes that are not hidden inside the collapsed branches.
+ * @param {UseKeyboardTreeNavigationNode[]} nodes - All nodes of the tree in the depth-first order.
+ * @param {string[]} expandedIds - The ids of the expanded nodes.
+ * @returns {UseKeyboardTreeNavigationNode[]} The visible nodes.
+ */
+const getVisibleNodes = (
+  nodes: UseKeyboardTreeNavigationNode[],
+  expandedIds: string[]
+): UseKeyboardTreeNavigationNode[] => {
+  const visibleNodes: UseKeyboardTreeNavigationNode[] = [];
+
+  /**
+   * The depth of the collapsed node whose descendants are being skipped.
+   */
+  let collapsedDepth = Infinity;
+
+  nodes.forEach((node) => {
+    if (node.depth > collapsedDepth) {
+      return;
+    }
+
+    visibleNodes.push(node);
+
+    collapsedDepth =
+      node.hasChildren && !expandedIds.includes(node.id)
+        ? node.depth
+        : Infinity;
+  });
+
+  return visibleNodes;
+};
+
+/**
+ * Returns the index of the parent of the node at the given index.
+ * @param {UseKeyboardTreeNavigationNode[]} nodes - The nodes in the depth-first order.
+ * @param {number} index - The index of the node.
+ * @returns {number} The index of the parent or -1 for the root nodes.
+ */
+const getParentIndex = (
+  nodes: UseKeyboardTreeNavigationNode[],
+  index: number
+): number => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (nodes[i].depth < nodes[index].depth) {
+      return i;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Returns the ids of the expandable siblings of the node at the given index,
+ * including the node itself.
+ * @param {UseKeyboardTreeNavigationNode[]} nodes - All nodes of the tree in the depth-first order.
+ * @param {number} index - The index of the node.
+ * @returns {string[]} The ids of the expandable siblings.
+ */
+const getExpandableSiblingIds = (
+  nodes: UseKeyboardTreeNavigationNode[],
+  index: number
+): string[] => {
+  const { depth } = nodes[index];
+  const ids: string[] = [];
+
+  for (
+    let i = getParentIndex(nodes, index) + 1;
+    i < nodes.length && nodes[i].depth >= depth;
+    i++
+  ) {
+    if (nodes[i].depth === depth && nodes[i].hasChildren) {
+      ids.push(nodes[i].id);
+    }
+  }
+
+  return ids;
+};
+
+/**
+ * Returns the visible index of the node with the given id or,
+ * if it is hidden inside a collapsed branch, of its closest visible ancestor.
+ * @param {UseKeyboardTreeNavigationNode[]} nodes - All nodes of the tree in the depth-first order.
+ * @param {UseKeyboardTreeNavigationNode[]} visibleNodes - The visible nodes.
+ * @param {string} id - The id of the node.
+ * @returns {number} The visible index or -1 if the node is not in the tree.
+ */
+const findVisibleIndex = (
+  nodes: UseKeyboardTreeNavigationNode[],
+  visibleNodes: UseKeyboardTreeNavigationNode[],
+  id: string
+): number => {
+  let position = nodes.findIndex((node) => node.id === id);
+
+  while (position >= 0) {
+    const index = visibleNodes.indexOf(nodes[position]);
+
+    if (index >= 0) {
+      return index;
+    }
+
+    position = getParentIndex(nodes, position);
+  }
+
+  return -1;
+};
+
+export const useKeyboardTreeNavigation = (
+  options: UseKeyboardTreeNavigationOptions
+): UseKeyboardTreeNavigationResult => {
+  const {
+    nodes,
+    expandedIds = EMPTY_EXPANDED_IDS,
+    onExpandedChange = () => undefined,
+    onSelect,
+    direction = 'ltr',
+    ...listOptions
+  } = options;
+
+  const [currentExpandedIds, setCurrentExpandedIds] = useState(expandedIds);
+
+  useDeepCompareEffect(() => {
+    setCurrentExpandedIds(expandedIds);
+  }, [expandedIds]);
+
+  const visibleNodes = getVisibleNodes(nodes, currentExpandedIds);
+
+  const {
+    currentHoveredIndex,
+    updateHoveredIndex,
+    updateListPosition,
+    onKeyDown: handleListKeyDown,
+    getTriggerProps,
+    getListProps,
+    getItemProps,
+  } = useKeyboardListNavigation({
+    ...listOptions,
+    direction,
+    itemsLength: visibleNodes.length,
+    isOpened: true,
+    onSelect: (index) => onSelect(visibleNodes[index], index),
+    isItemDisabled: (index) => !!visibleNodes[index]?.isDisabled,
+    getItemLabel: (index) => visibleNodes[index]?.label || '',
+  });
+
+  /**
+   * The id of the hovered node, used to keep it hovered
+   * when the nodes above it are expanded or collapsed.
+   */
+  const hoveredIdRef = useRef<string | null>(null);
+
+  useDeepCompareEffect(() => {
+    if (hoveredIdRef.current === null) {
+      return;
+    }
+
+    const index = findVisibleIndex(nodes, visibleNodes, hoveredIdRef.current);
+
+    if (index >= 0 && index !== currentHoveredIndex) {
+      updateHoveredIndex(index);
+    }
+  }, [visibleNodes.map((node) => node.id)]);
+
+  useEffect(() => {
+    const hoveredNode = visibleNodes[currentHoveredIndex];
+
+    hoveredIdRef.current = hoveredNode ? hoveredNode.id : null;
+  });
+
+  const updateExpandedIds = (ids: string[]) => {
+    setCurrentExpandedIds(ids);
+
+    onExpandedChange(ids);
+  };
+
+  const toggleNode = (id: string) => {
+    updateExpandedIds(
+      currentExpandedIds.includes(id)
+        ? currentExpandedIds.filter((expandedId) => expandedId !== id)
+        : [...currentExpandedIds, id]
+    );
+  };
+
+  /**
+   * Moves the hovered index to the given node unless it is disabled.
+   * @param {number} index - The visible index of the node.
+   */
+  const moveToNode = (index: number) => {
+    if (index >= 0 && !visibleNodes[index].isDisabled) {
+      updateListPosition(index);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    const node = visibleNodes[currentHoveredIndex];
+    const expandKey = direction === 'rtl' ? LEFT_KEY : RIGHT_KEY;
+    const collapseKey = direction === 'rtl' ? RIGHT_KEY : LEFT_KEY;
+
+    if (
+      !node ||
+      (e.code !== expandKey &&
+        e.code !== collapseKey &&
+        e.key !== EXPAND_SIBLINGS_KEY)
+    ) {
+      handleListKeyDown(e);
+
+      return;
+    }
+
+    e.preventDefault();
+
+    const isExpanded = currentExpandedIds.includes(node.id);
+
+    if (e.key === EXPAND_SIBLINGS_KEY) {
+      const siblingIds = getExpandableSiblingIds(
+        nodes,
+        nodes.indexOf(node)
+      ).filter((id) => !currentExpandedIds.includes(id));
+
+      if (siblingIds.length > 0) {
+        updateExpandedIds([...currentExpandedIds, ...siblingIds]);
+      }
+
+      return;
+    }
+
+    if (e.code === expandKey) {
+      if (!node.hasChildren) {
+        return;
+      }
+
+      if (!isExpanded) {
+        toggleNode(node.id);
+
+        return;
+      }
+
+      const childIndex = currentHoveredIndex + 1;
+      const child = visibleNodes[childIndex];
+
+      if (child && child.depth > node.depth) {
+        moveToNode(childIndex);
+      }
+
+      return;
+    }
+
+    if (node.hasChildren && isExpanded) {
+      toggleNode(node.id);
+
+      return;
+    }
+
+    moveToNode(getParentIndex(visibleNodes, currentHoveredIndex));
+  };
+
+  const getTreeProps = (): UseKeyboardTreeNavigationTreeProps => ({
+    'id': getListProps().id,
+    'role': 'tree',
+    'aria-activedescendant': getTriggerProps()['aria-activedescendant'],
+    'tabIndex': 0,
+    'onKeyDown': handleKeyDown,
+  });
+
+  const getNodeProps = (index: number): UseKeyboardTreeNavigationNodeProps => {
+    const node = visibleNodes[index];
+    const { id, onMouseEnter, onMouseMove, onClick } = getItemProps(index);
+
+    return {
+      'id': id,
+      'role': 'treeitem',
+      'aria-level': node.depth + 1,
+      'aria-selected': index === currentHoveredIndex,
+      'aria-disabled': node.isDisabled || undefined,
+      'aria-expanded': node.hasChildren
+        ? currentExpandedIds.includes(node.id)
+        : undefined,
+      'onMouseEnter': onMouseEnter,
+      'onMouseMove': onMouseMove,
+      'onClick': onClick,
+    };
+  };
+
+  return {
+    visibleNodes,
+    currentHoveredIndex,
+    updateHoveredIndex,
+    updateListPosition,
+    onKeyDown: handleKeyDown,
+    currentExpandedIds,
+    toggleNode,
+    getTreeProps,
+    getNodeProps,
+  };
+};
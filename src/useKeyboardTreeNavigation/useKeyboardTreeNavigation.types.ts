@@ -0,0 +1,173 @@
+import { KeyboardEventHandler, MouseEventHandler } from 'react';
+
+import {
+  UseKeyboardListNavigationOptions,
+  UseKeyboardListNavigationResult,
+} from '../useKeyboardListNavigation/useKeyboardListNavigation.types';
+
+/**
+ * A node of the flattened tree.
+ */
+export interface UseKeyboardTreeNavigationNode {
+  /**
+   * The unique id of the node.
+   */
+  id: string;
+  /**
+   * The depth of the node, `0` for the root nodes.
+   */
+  depth: number;
+  /**
+   * Whether the node has children and can be expanded.
+   */
+  hasChildren?: boolean;
+  /**
+   * Whether the node cannot be hovered or selected.
+   */
+  isDisabled?: boolean;
+  /**
+   * The text label of the node used for the typeahead search.
+   */
+  label?: string;
+}
+
+/**
+ * Props for the tree element.
+ */
+export interface UseKeyboardTreeNavigationTreeProps {
+  /**
+   * The id of the tree.
+   */
+  'id': string;
+  /**
+   * The role of the tree.
+   */
+  'role': 'tree';
+  /**
+   * The id of the hovered node.
+   */
+  'aria-activedescendant': string | undefined;
+  /**
+   * Makes the tree focusable.
+   */
+  'tabIndex': 0;
+  /**
+   * The keydown handler of the tree.
+   */
+  'onKeyDown': KeyboardEventHandler<HTMLElement>;
+}
+
+/**
+ * Props for a node element.
+ */
+export interface UseKeyboardTreeNavigationNodeProps {
+  /**
+   * The stable id of the node element.
+   */
+  'id': string;
+  /**
+   * The role of the node.
+   */
+  'role': 'treeitem';
+  /**
+   * The level of the node, starting from `1`.
+   */
+  'aria-level': number;
+  /**
+   * Whether the node is hovered.
+   */
+  'aria-selected': boolean;
+  /**
+   * Whether the node is disabled.
+   */
+  'aria-disabled': true | undefined;
+  /**
+   * Whether the node is expanded, `undefined` for the leaf nodes.
+   */
+  'aria-expanded': boolean | undefined;
+  /**
+   * Hovers the node with the mouse.
+   */
+  'onMouseEnter': MouseEventHandler<HTMLElement>;
+  /**
+   * Hovers the node when the mouse actually moves over it.
+   */
+  'onMouseMove': MouseEventHandler<HTMLElement>;
+  /**
+   * Selects the node on click.
+   */
+  'onClick': MouseEventHandler<HTMLElement>;
+}
+
+/**
+ * Options for the useKeyboardTreeNavigation hook.
+ */
+export interface UseKeyboardTreeNavigationOptions
+  extends Pick<
+    UseKeyboardListNavigationOptions,
+    | 'listRef'
+    | 'hoveredIndex'
+    | 'onHoveredIndexChange'
+    | 'id'
+    | 'direction'
+    | 'typeaheadTimeout'
+    | 'loop'
+    | 'onBoundaryReached'
+    | 'scrollToIndex'
+    | 'getItemElement'
+    | 'scrollAlignment'
+    | 'scrollBehavior'
+    | 'scrollPadding'
+  > {
+  /**
+   * All nodes of the tree flattened in the depth-first order,
+   * including the nodes of the collapsed branches.
+   */
+  nodes: UseKeyboardTreeNavigationNode[];
+  /**
+   * The ids of the expanded nodes.
+   */
+  expandedIds?: string[];
+  /**
+   * Callback triggered when a node is expanded or collapsed.
+   */
+  onExpandedChange?: (expandedIds: string[]) => void;
+  /**
+   * Callback triggered when a node is selected.
+   */
+  onSelect: (node: UseKeyboardTreeNavigationNode, index: number) => void;
+}
+
+/**
+ * Result of the useKeyboardTreeNavigation hook.
+ */
+export interface UseKeyboardTreeNavigationResult
+  extends Pick<
+    UseKeyboardListNavigationResult,
+    | 'currentHoveredIndex'
+    | 'updateHoveredIndex'
+    | 'updateListPosition'
+    | 'onKeyDown'
+  > {
+  /**
+   * The nodes that are not hidden inside the collapsed branches,
+   * in the order they are rendered.
+   */
+  visibleNodes: UseKeyboardTreeNavigationNode[];
+  /**
+   * The ids of the expanded nodes.
+   */
+  currentExpandedIds: string[];
+  /**
+   * Expands or collapses the node with the given id.
+   */
+  toggleNode: (id: string) => void;
+  /**
+   * Returns props for the tree element.
+   */
+  getTreeProps: () => UseKeyboardTreeNavigationTreeProps;
+  /**
+   * Returns props for the visible node at the given index.
+   */
+  getNodeProps: (index: number) => UseKeyboardTreeNavigationNodeProps;
+}
@@ -4,7 +4,7 @@ import { useOnOutsideClick } from '../useOnOutsideClick';
 
 export default {
   title: 'Hooks/useOnOutsideClick',
-  component: useOnOutsideClick,
+  component: useOnOutsideClick as unknown,
 } as Meta;
 
 const ChildComponent: React.FC<{
@@ -1,11 +1,15 @@
 import React, { useRef } from 'react';
-import { useOnOutsideClick } from '../../useOnOutsideClick';
+import { createPortal } from 'react-dom';
+import {
+  useOnOutsideClick,
+  UseOnOutsideClickEventType,
+} from '../../useOnOutsideClick';
 
 type TestComponentProps = {
   /**
    * Callback when clicking outside
    */
-  onOutsideClick: (event: MouseEvent) => void;
+  onOutsideClick: (event: Event) => void;
   /**
    * Context for grouping handlers and tracked items.
    *
@@ -14,26 +18,82 @@ type TestComponentProps = {
    * @default 'global' - General context used by default.
    */
   context?: string;
+  /**
+   * Events that are treated as an interaction outside
+   */
+  events?: UseOnOutsideClickEventType[];
+  /**
+   * Whether clicks on the trigger are treated as inside
+   */
+  isTriggerIgnored?: boolean;
+  /**
+   * Whether the tooltip is tracked together with the inside element
+   */
+  isTooltipTracked?: boolean;
+  /**
+   * Returns `true` for the events that are treated as inside
+   */
+  ignore?: (event: Event) => boolean;
+  /**
+   * Whether the inside element renders a portal into the document body
+   */
+  hasPortal?: boolean;
+  /**
+   * Whether events inside the portals of the inside element are treated as inside
+   */
+  isReactTreeAware?: boolean;
 };
 
 const TestComponent = (props: TestComponentProps) => {
-  const { onOutsideClick, context } = props;
+  const {
+    onOutsideClick,
+    context,
+    events,
+    isTriggerIgnored,
+    isTooltipTracked,
+    ignore,
+    hasPortal,
+    isReactTreeAware,
+  } = props;
   const ref = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
 
-  const handleOutsideClick = (event: MouseEvent) => {
+  const handleOutsideClick = (event: Event) => {
     onOutsideClick(event);
   };
 
-  useOnOutsideClick({
-    ref,
+  const { getInsideProps } = useOnOutsideClick({
+    ref: isTooltipTracked ? [ref, tooltipRef] : ref,
     handler: handleOutsideClick,
     context,
+    events,
+    ignoreRefs: isTriggerIgnored ? [triggerRef] : undefined,
+    ignore,
   });
 
   return (
     <div>
-      <div ref={ref} data-testid={`inside-${context || 'default'}`}>
+      <button ref={triggerRef} data-testid={`trigger-${context || 'default'}`}>
+        Trigger
+      </button>
+      <div
+        ref={ref}
+        data-testid={`inside-${context || 'default'}`}
+        {...(isReactTreeAware ? getInsideProps() : {})}
+      >
         Inside
+        <button data-testid={`inside-button-${context || 'default'}`}>
+          Button
+        </button>
+        {hasPortal &&
+          createPortal(
+            <div data-testid={`portal-${context || 'default'}`}>Portal</div>,
+            document.body
+          )}
+      </div>
+      <div ref={tooltipRef} data-testid={`tooltip-${context || 'default'}`}>
+        Tooltip
       </div>
       <div data-testid={`context-${context || 'default'}`}>
         {context || 'default'}
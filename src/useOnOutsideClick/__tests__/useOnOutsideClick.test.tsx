@@ -1,5 +1,6 @@
 import React from 'react';
 import { render, fireEvent, screen } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
 import TestComponent from './components/TestComponent';
 import { useOnOutsideClick } from '../useOnOutsideClick';
 
@@ -158,4 +159,352 @@ describe('useOnOutsideClick', () => {
     expect(handler1).not.toHaveBeenCalled();
     expect(handler2).toHaveBeenCalledTimes(1);
   });
+
+  it('should call handler only for the tracked events', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} events={['pointerdown']} />
+        <div data-testid="outside">Outside</div>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    const outsideElement = screen.getByTestId('outside');
+
+    fireEvent.click(outsideElement);
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].type).toBe('pointerdown');
+  });
+
+  it('should call handler when the focus moves outside', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} events={['focusin']} />
+        <button data-testid="outside">Outside</button>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    screen.getByTestId('inside-button-default').focus();
+    expect(handler).not.toHaveBeenCalled();
+
+    screen.getByTestId('outside').focus();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call handler when clicking the ignored elements', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} isTriggerIgnored />
+        <div data-testid="outside">Outside</div>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(screen.getByTestId('trigger-default'));
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('outside'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call handler for the events ignored by the predicate', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent
+          onOutsideClick={handler}
+          ignore={(event) =>
+            (event.target as HTMLElement).dataset.testid === 'ignored'
+          }
+        />
+        <div data-testid="ignored">Ignored</div>
+        <div data-testid="outside">Outside</div>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(screen.getByTestId('ignored'));
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('outside'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat several refs as a single inside region', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} isTooltipTracked />
+        <div data-testid="outside">Outside</div>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(screen.getByTestId('inside-default'));
+    fireEvent.click(screen.getByTestId('tooltip-default'));
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('trigger-default'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call handler when clicking a portal outside of the React tree mode', () => {
+    const handler = jest.fn();
+
+    render(<TestComponent onOutsideClick={handler} hasPortal />);
+
+    jest.runAllTimers();
+
+    fireEvent.click(screen.getByTestId('portal-default'));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call handler when clicking a portal in the React tree mode', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} hasPortal isReactTreeAware />
+        <div data-testid="outside">Outside</div>
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(screen.getByTestId('portal-default'));
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('outside'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call handler when clicking inside a shadow root', () => {
+    const handler = jest.fn();
+
+    const host = document.createElement('div');
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    const insideElement = document.createElement('div');
+    const shadowButton = document.createElement('button');
+
+    insideElement.appendChild(shadowButton);
+    shadowRoot.appendChild(insideElement);
+    document.body.appendChild(host);
+
+    const { unmount } = renderHook(() =>
+      useOnOutsideClick({ ref: { current: insideElement }, handler })
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(shadowButton);
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(document.body);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    unmount();
+    host.remove();
+  });
+
+  it('should attach the listeners on the first registration and remove them after the last one', () => {
+    const addEventListenerSpy = jest.spyOn(document, 'addEventListener');
+    const removeEventListenerSpy = jest.spyOn(document, 'removeEventListener');
+
+    const first = render(<TestComponent onOutsideClick={jest.fn()} />);
+    const second = render(
+      <TestComponent onOutsideClick={jest.fn()} context="other" />
+    );
+
+    expect(addEventListenerSpy).not.toHaveBeenCalledWith(
+      'click',
+      expect.any(Function)
+    );
+
+    jest.runAllTimers();
+
+    expect(
+      addEventListenerSpy.mock.calls.filter(([type]) => type === 'click')
+    ).toHaveLength(1);
+
+    first.unmount();
+
+    expect(removeEventListenerSpy).not.toHaveBeenCalledWith(
+      'click',
+      expect.any(Function)
+    );
+
+    second.unmount();
+
+    expect(removeEventListenerSpy).toHaveBeenCalledWith(
+      'click',
+      expect.any(Function)
+    );
+
+    addEventListenerSpy.mockRestore();
+    removeEventListenerSpy.mockRestore();
+  });
+
+  it('should track the clicks in the document of the ref element', () => {
+    const handler = jest.fn();
+
+    const iframe = document.createElement('iframe');
+
+    document.body.appendChild(iframe);
+
+    const ownerDocument = iframe.contentDocument!;
+    const insideElement = ownerDocument.createElement('div');
+    const outsideElement = ownerDocument.createElement('div');
+
+    ownerDocument.body.append(insideElement, outsideElement);
+
+    const { unmount } = renderHook(() =>
+      useOnOutsideClick({ ref: { current: insideElement }, handler })
+    );
+
+    jest.runAllTimers();
+
+    fireEvent.click(insideElement);
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    unmount();
+
+    fireEvent.click(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    iframe.remove();
+  });
+
+  it('should track the clicks in the document of the ref element mounted after the registration', () => {
+    const handler = jest.fn();
+
+    const iframe = document.createElement('iframe');
+
+    document.body.appendChild(iframe);
+
+    const ownerDocument = iframe.contentDocument!;
+    const insideElement = ownerDocument.createElement('div');
+    const outsideElement = ownerDocument.createElement('div');
+
+    ownerDocument.body.append(insideElement, outsideElement);
+
+    const ref: React.MutableRefObject<HTMLElement | null> = { current: null };
+
+    const { rerender, unmount } = renderHook(() =>
+      useOnOutsideClick({ ref, handler })
+    );
+
+    jest.runAllTimers();
+
+    ref.current = insideElement;
+    rerender();
+
+    fireEvent.click(insideElement);
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.click(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(document.body);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    unmount();
+
+    fireEvent.click(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    iframe.remove();
+  });
+
+  it('should resolve the document of the ref element when the listeners are attached', () => {
+    const handler = jest.fn();
+
+    const iframe = document.createElement('iframe');
+
+    document.body.appendChild(iframe);
+
+    const ownerDocument = iframe.contentDocument!;
+    const insideElement = ownerDocument.createElement('div');
+    const outsideElement = ownerDocument.createElement('div');
+
+    ownerDocument.body.append(insideElement, outsideElement);
+
+    const ref: React.MutableRefObject<HTMLElement | null> = { current: null };
+
+    const { unmount } = renderHook(() => useOnOutsideClick({ ref, handler }));
+
+    ref.current = insideElement;
+    jest.runAllTimers();
+
+    fireEvent.click(outsideElement);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    unmount();
+    iframe.remove();
+  });
+
+  it('should call handler with the iframefocus event when the focus moves into an iframe', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent
+          onOutsideClick={handler}
+          events={['click', 'iframefocus']}
+        />
+        <iframe data-testid="outside-iframe" />
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    const iframe = screen.getByTestId('outside-iframe');
+
+    iframe.focus();
+    fireEvent.blur(window);
+    jest.runAllTimers();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].type).toBe('iframefocus');
+    expect(handler.mock.calls[0][0].detail.iframe).toBe(iframe);
+  });
+
+  it('should not call handler when the focus moves into an iframe without the iframefocus event', () => {
+    const handler = jest.fn();
+
+    render(
+      <div>
+        <TestComponent onOutsideClick={handler} />
+        <iframe data-testid="outside-iframe" />
+      </div>
+    );
+
+    jest.runAllTimers();
+
+    screen.getByTestId('outside-iframe').focus();
+    fireEvent.blur(window);
+    jest.runAllTimers();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
 });
@@ -1,75 +1,405 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { reject } from '@utils';
 
-type UseOnOutsideClickOptions = {
+type UseOnOutsideClickIframeFocusDetail = {
   /**
-   * Ref of the tracked item
+   * The iframe that received the focus.
    */
-  ref: React.MutableRefObject<HTMLElement | null>;
+  iframe: HTMLIFrameElement;
+};
+
+/**
+ * Events that can be tracked outside the ref element.
+ */
+type UseOnOutsideClickEventMap = Pick<
+  DocumentEventMap,
+  'click' | 'pointerdown' | 'mousedown' | 'touchstart' | 'focusin'
+> & {
+  /**
+   * The focus moved into an iframe, e.g. after a click inside it,
+   * which never reaches the parent document.
+   */
+  iframefocus: CustomEvent<UseOnOutsideClickIframeFocusDetail>;
+};
+
+/**
+ * Type of the event that is tracked outside the ref element.
+ */
+export type UseOnOutsideClickEventType = keyof UseOnOutsideClickEventMap;
+
+type UseOnOutsideClickRef = React.MutableRefObject<HTMLElement | null>;
+
+export type UseOnOutsideClickInsideProps = {
   /**
-   * A callback that will work when clicked from outside the ref element.
+   * Marks the click as inside the React tree of the element.
    */
-  handler: (event: MouseEvent) => unknown;
+  onClickCapture: React.ReactEventHandler;
   /**
-   * Context for grouping handlers and tracked items.
-   *
-   * - If specified, handlers and links will be grouped within the specified context.
-   * - Handlers of one context will not affect handlers of other contexts.
-   * @default 'global' - General context used by default.
+   * Marks the pointerdown event as inside the React tree of the element.
    */
-  context?: string;
+  onPointerDownCapture: React.ReactEventHandler;
+  /**
+   * Marks the mousedown event as inside the React tree of the element.
+   */
+  onMouseDownCapture: React.ReactEventHandler;
+  /**
+   * Marks the touchstart event as inside the React tree of the element.
+   */
+  onTouchStartCapture: React.ReactEventHandler;
+  /**
+   * Marks the focusin event as inside the React tree of the element.
+   */
+  onFocusCapture: React.ReactEventHandler;
 };
 
-const configs: Partial<
-  Record<string, Pick<UseOnOutsideClickOptions, 'ref' | 'handler'>[]>
-> = {};
+type UseOnOutsideClickResult = {
+  /**
+   * Returns props for the ref element that enable the React tree mode:
+   * events inside portals rendered by its descendants are treated as inside.
+   */
+  getInsideProps: () => UseOnOutsideClickInsideProps;
+};
+
+type UseOnOutsideClickOptions<E extends UseOnOutsideClickEventType = 'click'> =
+  {
+    /**
+     * Ref of the tracked item.
+     * Several refs are treated as a single inside region,
+     * e.g. a popover and its detached tooltip.
+     */
+    ref: UseOnOutsideClickRef | UseOnOutsideClickRef[];
+    /**
+     * A callback that will work when clicked from outside the ref element.
+     */
+    handler: (event: UseOnOutsideClickEventMap[E]) => unknown;
+    /**
+     * Context for grouping handlers and tracked items.
+     *
+     * - If specified, handlers and links will be grouped within the specified context.
+     * - Handlers of one context will not affect handlers of other contexts.
+     * @default 'global' - General context used by default.
+     */
+    context?: string;
+    /**
+     * Events that are treated as an interaction outside the ref element.
+     * Use `pointerdown` or `mousedown` to react before the click is finished,
+     * `focusin` to react when the focus moves outside
+     * and `iframefocus` to react to the clicks inside iframes.
+     * @default ['click']
+     */
+    events?: E[];
+    /**
+     * Refs of the elements that are treated as inside,
+     * e.g. the button that toggles the popover.
+     */
+    ignoreRefs?: UseOnOutsideClickRef[];
+    /**
+     * Returns `true` for the events that are treated as inside.
+     */
+    ignore?: (event: UseOnOutsideClickEventMap[E]) => boolean;
+  };
+
+/**
+ * The elements that the tracked events are checked against.
+ * Updated on every render, so inline arrays and callbacks do not re-register the handler.
+ */
+type Region = {
+  /**
+   * Refs of the tracked items.
+   */
+  refs: UseOnOutsideClickRef[];
+  /**
+   * Refs of the elements that are treated as inside.
+   */
+  ignoreRefs: UseOnOutsideClickRef[];
+  /**
+   * Returns `true` for the events that are treated as inside.
+   */
+  ignore: (event: Event) => boolean;
+};
+
+type Config = {
+  /**
+   * A callback that will work when the tracked event happens outside the ref element.
+   */
+  handler: (event: Event) => unknown;
+  /**
+   * Events that are treated as an interaction outside the ref element.
+   */
+  events: UseOnOutsideClickEventType[];
+  /**
+   * The latest elements that the tracked events are checked against.
+   */
+  regionRef: React.MutableRefObject<Region>;
+  /**
+   * The last native event that passed through the React tree of the element.
+   */
+  reactTreeEventRef: React.MutableRefObject<Event | null>;
+};
+
+const EVENT_TYPES: UseOnOutsideClickEventType[] = [
+  'click',
+  'pointerdown',
+  'mousedown',
+  'touchstart',
+  'focusin',
+  'iframefocus',
+];
+
+const DEFAULT_EVENTS: UseOnOutsideClickEventType[] = ['click'];
+
+const EMPTY_REFS: UseOnOutsideClickRef[] = [];
+
+const ignoreNothing = () => false;
+
+const configs: Partial<Record<string, Config[]>> = {};
+
+/**
+ * The number of registrations per document that the listeners are attached to.
+ */
+const listenerCounts = new Map<Document, number>();
+
+/**
+ * Checks whether the event target is inside one of the elements.
+ * The composed path is used, so the targets inside shadow roots,
+ * which are retargeted to their hosts at the document, are found as well.
+ * @param {UseOnOutsideClickRef[]} refs - Refs of the elements.
+ * @param {Event} event - The tracked event.
+ * @returns {boolean} True if one of the elements contains the event target.
+ */
+const containsTarget = (
+  refs: UseOnOutsideClickRef[],
+  event: Event
+): boolean => {
+  const path = event.composedPath();
+
+  return refs.some(({ current }) => {
+    if (!current) {
+      return false;
+    }
+
+    return path.length > 0
+      ? path.includes(current)
+      : current.contains(event.target as Node);
+  });
+};
 
-const handleOutsideClick = (event: MouseEvent) => {
+const handleOutsideClick = (event: Event) => {
   for (const context in configs) {
     const group = configs[context]!;
 
     for (let i = group.length - 1; i > -1; i--) {
-      const { ref, handler } = group[i];
+      const { handler, events, regionRef, reactTreeEventRef } = group[i];
+      const { refs, ignoreRefs, ignore } = regionRef.current;
 
-      const domElement = ref.current;
-
-      if (!domElement) {
+      if (!refs.some(({ current }) => current)) {
         continue;
       }
 
-      if (domElement.contains(event.target as HTMLElement)) {
-        break;
-      } else {
+      /**
+       * Only the last element of the context is checked,
+       * even if it does not track this type of event.
+       */
+      if (
+        events.includes(event.type as UseOnOutsideClickEventType) &&
+        reactTreeEventRef.current !== event &&
+        !containsTarget(refs, event) &&
+        !containsTarget(ignoreRefs, event) &&
+        !ignore(event)
+      ) {
         handler(event);
-
-        break;
       }
+
+      break;
     }
   }
 };
 
-document.addEventListener('click', handleOutsideClick);
+/**
+ * Clicks inside iframes never reach the parent document, but they move the focus
+ * into the iframe and blur the window, so the `iframefocus` event is dispatched
+ * on the iframe instead. The active element is updated after the blur,
+ * so it is checked on the next tick.
+ * @param {FocusEvent} event - The blur event of the window.
+ */
+const handleWindowBlur = (event: FocusEvent) => {
+  const view = event.currentTarget as Window;
+
+  if (event.target !== view) {
+    return;
+  }
+
+  setTimeout(() => {
+    const { activeElement } = view.document;
+
+    if (!activeElement || activeElement.tagName !== 'IFRAME') {
+      return;
+    }
+
+    activeElement.dispatchEvent(
+      new CustomEvent<UseOnOutsideClickIframeFocusDetail>('iframefocus', {
+        bubbles: true,
+        detail: { iframe: activeElement as HTMLIFrameElement },
+      })
+    );
+  });
+};
+
+/**
+ * Attaches the listeners to the document on its first registration.
+ * @param {Document} ownerDocument - The document of the tracked elements.
+ */
+const retainListeners = (ownerDocument: Document) => {
+  const count = listenerCounts.get(ownerDocument) || 0;
+
+  if (count === 0) {
+    EVENT_TYPES.forEach((type) => {
+      ownerDocument.addEventListener(type, handleOutsideClick);
+    });
 
-export const useOnOutsideClick = (options: UseOnOutsideClickOptions): void => {
-  const { handler, ref, context = 'global' } = options;
+    ownerDocument.defaultView?.addEventListener('blur', handleWindowBlur);
+  }
+
+  listenerCounts.set(ownerDocument, count + 1);
+};
+
+/**
+ * Removes the listeners from the document when its last registration is removed.
+ * @param {Document} ownerDocument - The document of the tracked elements.
+ */
+const releaseListeners = (ownerDocument: Document) => {
+  const count = (listenerCounts.get(ownerDocument) || 0) - 1;
+
+  if (count > 0) {
+    listenerCounts.set(ownerDocument, count);
+
+    return;
+  }
+
+  listenerCounts.delete(ownerDocument);
+
+  EVENT_TYPES.forEach((type) => {
+    ownerDocument.removeEventListener(type, handleOutsideClick);
+  });
+
+  ownerDocument.defaultView?.removeEventListener('blur', handleWindowBlur);
+};
+
+/**
+ * Returns the document of the tracked elements, e.g. of an iframe or a popup window.
+ * @param {UseOnOutsideClickRef[]} refs - Refs of the tracked elements.
+ * @returns {Document} The document of the first mounted element or the global one.
+ */
+const getOwnerDocument = (refs: UseOnOutsideClickRef[]): Document => {
+  const mountedRef = refs.find(({ current }) => current);
+
+  return mountedRef ? mountedRef.current!.ownerDocument : document;
+};
+
+export const useOnOutsideClick = <
+  E extends UseOnOutsideClickEventType = 'click',
+>(
+  options: UseOnOutsideClickOptions<E>
+): UseOnOutsideClickResult => {
+  const {
+    handler,
+    ref,
+    context = 'global',
+    events = DEFAULT_EVENTS,
+    ignoreRefs = EMPTY_REFS,
+    ignore = ignoreNothing,
+  } = options;
+
+  const region: Region = {
+    refs: Array.isArray(ref) ? ref : [ref],
+    ignoreRefs,
+    ignore: ignore as (event: Event) => boolean,
+  };
+
+  const regionRef = useRef(region);
+
+  regionRef.current = region;
+
+  const reactTreeEventRef = useRef<Event | null>(null);
+
+  /**
+   * The document that the listeners are attached to, or null before the registration.
+   */
+  const ownerDocumentRef = useRef<Document | null>(null);
 
   useEffect(() => {
     if (!configs[context]) {
       configs[context] = [];
     }
 
-    const option = { handler, ref };
+    const option: Config = {
+      handler: handler as (event: Event) => unknown,
+      events,
+      regionRef,
+      reactTreeEventRef,
+    };
 
     /**
      * It is necessary so that we don't have 'handleOutsideClick' called immediately
      * after rendering the component because of 'bubbling'
      */
-    setTimeout(() => {
+    const timeout = setTimeout(() => {
       configs[context]?.push(option);
+
+      ownerDocumentRef.current = getOwnerDocument(regionRef.current.refs);
+      retainListeners(ownerDocumentRef.current);
     });
 
     return () => {
-      configs[context] = reject(configs[context]!, option);
+      clearTimeout(timeout);
+
+      if (ownerDocumentRef.current) {
+        configs[context] = reject(configs[context]!, option);
+        releaseListeners(ownerDocumentRef.current);
+
+        ownerDocumentRef.current = null;
+      }
     };
-  }, [handler, ref, context]);
+  }, [handler, context, events.join()]);
+
+  /**
+   * The ref elements can mount after the registration, e.g. in an iframe
+   * or a popup window, so the listeners are moved to their document.
+   */
+  useEffect(() => {
+    const registeredDocument = ownerDocumentRef.current;
+
+    if (!registeredDocument) {
+      return;
+    }
+
+    const ownerDocument = getOwnerDocument(regionRef.current.refs);
+
+    if (ownerDocument !== registeredDocument) {
+      retainListeners(ownerDocument);
+      releaseListeners(registeredDocument);
+
+      ownerDocumentRef.current = ownerDocument;
+    }
+  });
+
+  /**
+   * React events bubble through portals along the React tree,
+   * so the capture handlers of the element see the events of its portals
+   * before the document listener does.
+   * @param {React.SyntheticEvent} event - The React event.
+   */
+  const markReactTreeEvent = (event: React.SyntheticEvent) => {
+    reactTreeEventRef.current = event.nativeEvent;
+  };
+
+  const getInsideProps = (): UseOnOutsideClickInsideProps => ({
+    onClickCapture: markReactTreeEvent,
+    onPointerDownCapture: markReactTreeEvent,
+    onMouseDownCapture: markReactTreeEvent,
+    onTouchStartCapture: markReactTreeEvent,
+    onFocusCapture: markReactTreeEvent,
+  });
+
+  return { getInsideProps };
 };